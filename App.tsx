@@ -1,53 +1,153 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import WebcamProctor from './components/WebcamProctor';
 import Lobby from './components/Lobby';
+import IncidentReview from './components/IncidentReview';
+import ResumeSession from './components/ResumeSession';
+import ProgressDashboard from './components/ProgressDashboard';
+import CohortDashboard from './components/CohortDashboard';
+import MarkingView from './components/MarkingView';
+import { CandidateIdentity, ClinicalCase, ExamPhase, ProctoringHealth, ProctoringIncident, StoredSession, ViolationCategory, ViolationEvidence } from './types';
+import { createIncident, reviewIncident } from './services/incidentLog';
+import { DisplayState, startBrowserIntegrityMonitor } from './services/browserIntegrity';
+import { countsAsWarning, countWarnings, getActiveProctoringPolicy, getTerminationReason, proctoringPolicies, violationLabels } from './services/proctoringPolicy';
+import { caseLibrary } from './services/caseLibrary';
+import { getActiveAIProvider } from './services/aiProvider';
+import { createStoredSession, findInterruptedSession, saveSession, updateSession } from './services/sessionStore';
 
 const App: React.FC = () => {
+  const [policy, setPolicy] = useState(getActiveProctoringPolicy);
+  const [{ provider: aiProvider, error: aiProviderError }] = useState(getActiveAIProvider);
   const [examStarted, setExamStarted] = useState(false);
-  const [fullscreenWarnings, setFullscreenWarnings] = useState(0);
-  const [proctoringWarnings, setProctoringWarnings] = useState(0);
+  // Reported by WebcamProctor; null until the exam screen is showing.
+  const [examPhase, setExamPhase] = useState<ExamPhase | null>(null);
+  const [activeCase, setActiveCase] = useState<ClinicalCase | null>(null);
+  const [candidateIdentity, setCandidateIdentity] = useState<CandidateIdentity | null>(null);
   const [isExamBlocked, setIsExamBlocked] = useState(false);
   const [warningMessage, setWarningMessage] = useState('');
+  const [incidents, setIncidents] = useState<ProctoringIncident[]>([]);
+  const [examStartedAt, setExamStartedAt] = useState<string | null>(null);
+  const [isReviewingIncidents, setIsReviewingIncidents] = useState(false);
+  const [proctoringHealth, setProctoringHealth] = useState<ProctoringHealth | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [interruptedSession, setInterruptedSession] = useState<StoredSession | null>(null);
+  const [resumeSession, setResumeSession] = useState<StoredSession | null>(null);
+  // ?view=progress links straight to the candidate dashboard. ?view=cohort opens the faculty analytics and ?view=marking
+  // the examiner's score editing and sign-off; neither has a link from the lobby or the exam screens.
+  const [dashboardView, setDashboardView] = useState<'progress' | 'cohort' | 'marking' | null>(() => {
+    const view = new URLSearchParams(window.location.search).get('view');
+    return view === 'progress' || view === 'cohort' || view === 'marking' ? view : null;
+  });
 
-  const totalWarnings = fullscreenWarnings + proctoringWarnings;
+  const totalWarnings = countWarnings(incidents);
+  const maxWarnings = policy.termination.maxWarnings;
+  const formatWarningCount = (count: number) => maxWarnings !== null ? `${count} of ${maxWarnings}` : String(count);
 
-  const handleStartExam = () => {
+  useEffect(() => {
+    findInterruptedSession().then(setInterruptedSession);
+  }, []);
+
+  const enterExam = (clinicalCase: ClinicalCase, identity: CandidateIdentity, startedAt: string) => {
+    setActiveCase(clinicalCase);
+    setCandidateIdentity(identity);
+    setExamStartedAt(startedAt);
     document.documentElement.requestFullscreen().catch(err => {
       console.error(`Error attempting to enable full-screen mode: ${err.message} (${err.name})`);
     });
     setExamStarted(true);
   };
 
+  const handleStartExam = (clinicalCase: ClinicalCase, identity: CandidateIdentity) => {
+    if (!aiProvider) return;
+    const session = createStoredSession(clinicalCase.id, policy.id, aiProvider.id, identity);
+    saveSession(session);
+    setSessionId(session.id);
+    setResumeSession(null);
+    enterExam(clinicalCase, identity, session.startedAt);
+  };
+
+  // Submitting ends the interrupted station straight away and goes on to feedback and marking.
+  const handleResumeSession = (mode: 'resume' | 'submit') => {
+    const session = interruptedSession;
+    const clinicalCase = session && caseLibrary.find(c => c.id === session.caseId);
+    if (!session || !clinicalCase || session.aiProviderId !== aiProvider?.id) return;
+    setPolicy(proctoringPolicies.find(p => p.id === session.policyId) ?? policy);
+    setIncidents(session.incidents);
+    setProctoringHealth(session.proctoringHealth);
+    setSessionId(session.id);
+    setResumeSession(mode === 'submit' ? { ...session, phase: 'feedback' } : session);
+    setInterruptedSession(null);
+    enterExam(clinicalCase, session.candidateIdentity, session.startedAt);
+  };
+
+  const handleDiscardSession = () => {
+    if (interruptedSession) updateSession(interruptedSession.id, session => ({ ...session, status: 'abandoned' }));
+    setInterruptedSession(null);
+  };
+
+  useEffect(() => {
+    if (!sessionId) return;
+    updateSession(sessionId, session => ({ ...session, incidents, proctoringHealth }));
+  }, [sessionId, incidents, proctoringHealth]);
+
   const showWarning = (message: string) => {
     setWarningMessage(message);
     setTimeout(() => setWarningMessage(''), 3000); // Hide after 3 seconds
   };
   
-  const handleFullscreenChange = useCallback(() => {
-    if (!document.fullscreenElement && examStarted && !isExamBlocked) {
-      const newCount = fullscreenWarnings + 1;
-      setFullscreenWarnings(newCount);
-      showWarning(`Fullscreen exited. Warning ${totalWarnings + 1} of 5.`);
-      if (newCount >= 2) {
-          setIsExamBlocked(true);
-          setWarningMessage('Exam locked. You have exited fullscreen mode multiple times.');
+  // Every violation is logged for review; only those the policy counts raise a warning.
+  const recordViolation = useCallback((category: ViolationCategory, reason: string, evidence: ViolationEvidence, alertPrefix: string) => {
+      const incident = createIncident(policy, category, reason, evidence);
+      setIncidents(prev => [...prev, incident]);
+      if (countsAsWarning(incident.severity)) {
+          showWarning(`${alertPrefix}. Warning ${formatWarningCount(totalWarnings + 1)}.`);
       }
+  }, [policy, totalWarnings]);
+
+  const handleFullscreenChange = useCallback(() => {
+    if (!document.fullscreenElement && examStarted && !isExamBlocked && !isReviewingIncidents) {
+      recordViolation('fullscreen-exit', 'Candidate exited fullscreen mode.', {}, 'Fullscreen exited');
     }
-  }, [examStarted, isExamBlocked, fullscreenWarnings, totalWarnings]);
+  }, [examStarted, isExamBlocked, isReviewingIncidents, recordViolation]);
 
-  const handleProctoringViolation = useCallback((reason: string) => {
+  const handleProctoringViolation = useCallback((category: ViolationCategory, reason: string, evidence: ViolationEvidence) => {
       if (isExamBlocked) return;
-      const newCount = proctoringWarnings + 1;
-      setProctoringWarnings(newCount);
-      showWarning(`Proctoring Alert: ${reason}. Warning ${totalWarnings + 1} of 5.`);
-  }, [isExamBlocked, proctoringWarnings, totalWarnings]);
+      recordViolation(category, reason, evidence, `Proctoring Alert: ${violationLabels[category]}`);
+  }, [isExamBlocked, recordViolation]);
+
+  // The monitor outlives many renders, so it reports through a ref to the latest handler.
+  const recordViolationRef = useRef(recordViolation);
+  useEffect(() => {
+    recordViolationRef.current = recordViolation;
+  }, [recordViolation]);
+
+  const displayStateRef = useRef<DisplayState>({ isExtended: false });
+
+  // Only the station itself is watched: the feedback, Q&A and results screens need the clipboard for examiner
+  // input, and printing the report opens a new window.
+  useEffect(() => {
+    if (examPhase !== 'in-progress' || isExamBlocked || isReviewingIncidents) return;
+    return startBrowserIntegrityMonitor((type, reason) => {
+      recordViolationRef.current(type, reason, {}, violationLabels[type]);
+    }, displayStateRef.current);
+  }, [examPhase, isExamBlocked, isReviewingIncidents]);
 
   useEffect(() => {
-    if (totalWarnings >= 5 && !isExamBlocked) {
+    if (isExamBlocked) return;
+    const terminationReason = getTerminationReason(policy, incidents);
+    if (terminationReason) {
         setIsExamBlocked(true);
-        setWarningMessage('Exam terminated after 5 warnings.');
+        setWarningMessage(terminationReason);
     }
-  }, [totalWarnings, isExamBlocked]);
+  }, [policy, incidents, isExamBlocked]);
+
+  const handleReviewIncident = (incidentId: string, decision: 'confirmed' | 'dismissed', reviewerId: string) => {
+    setIncidents(prev => prev.map(incident => incident.id === incidentId ? reviewIncident(incident, decision, reviewerId) : incident));
+  };
+
+  const handleOpenIncidentReview = () => {
+    setWarningMessage('');
+    setIsReviewingIncidents(true);
+  };
 
   useEffect(() => {
     document.addEventListener('fullscreenchange', handleFullscreenChange);
@@ -64,17 +164,49 @@ const App: React.FC = () => {
         </h1>
       </header>
       <main className="relative">
-        {!examStarted ? (
-          <Lobby onStartExam={handleStartExam} />
+        {isReviewingIncidents ? (
+          <IncidentReview incidents={incidents} candidateIdentity={candidateIdentity} proctoringHealth={proctoringHealth} examStartedAt={examStartedAt} onReview={handleReviewIncident} />
+        ) : interruptedSession && !examStarted ? (
+          <ResumeSession
+            session={interruptedSession}
+            clinicalCase={caseLibrary.find(c => c.id === interruptedSession.caseId) ?? null}
+            aiProviderId={aiProvider?.id ?? null}
+            onResume={() => handleResumeSession('resume')}
+            onSubmit={() => handleResumeSession('submit')}
+            onDiscard={handleDiscardSession}
+          />
+        ) : dashboardView === 'progress' && !examStarted ? (
+          <ProgressDashboard onBack={() => setDashboardView(null)} />
+        ) : dashboardView === 'cohort' && !examStarted ? (
+          <CohortDashboard onBack={() => setDashboardView(null)} />
+        ) : dashboardView === 'marking' && !examStarted ? (
+          <MarkingView onBack={() => setDashboardView(null)} />
+        ) : !aiProvider ? (
+          <div className="flex justify-center p-4">
+            <p className="max-w-md p-4 rounded-lg border text-red-400 border-red-500/50 bg-red-900/20 text-center font-semibold">
+              {aiProviderError}
+            </p>
+          </div>
+        ) : !examStarted || !activeCase || !candidateIdentity || !sessionId ? (
+          <Lobby policy={policy} aiProvider={aiProvider} onStartExam={handleStartExam} onViewProgress={() => setDashboardView('progress')} />
         ) : (
           <WebcamProctor 
+            clinicalCase={activeCase}
+            candidateIdentity={candidateIdentity}
+            sessionId={sessionId}
+            resumeSession={resumeSession}
+            policy={policy}
+            aiProvider={aiProvider}
             onViolation={handleProctoringViolation}
+            onProctoringHealthChange={setProctoringHealth}
+            onPhaseChange={setExamPhase}
+            onReviewIncidents={handleOpenIncidentReview}
             isBlocked={isExamBlocked}
           />
         )}
         
         {/* Warning & Block Overlay */}
-        {(warningMessage || isExamBlocked) && (
+        {(warningMessage || isExamBlocked) && !isReviewingIncidents && (
             <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-40 backdrop-blur-sm">
                 <div className={`p-8 rounded-2xl shadow-2xl border ${isExamBlocked ? 'border-red-500 bg-gray-900' : 'border-amber-500 bg-gray-800'} max-w-md text-center`}>
                      <svg xmlns="http://www.w3.org/2000/svg" className={`h-16 w-16 mx-auto mb-4 ${isExamBlocked ? 'text-red-500' : 'text-amber-500'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -82,7 +214,12 @@ const App: React.FC = () => {
                     </svg>
                     <h2 className="text-2xl font-bold mb-2">{isExamBlocked ? 'Exam Terminated' : 'Warning'}</h2>
                     <p className="text-lg text-gray-300">{warningMessage}</p>
-                    {!isExamBlocked && <p className="text-sm text-gray-400 mt-4">Total Warnings: {totalWarnings} / 5</p>}
+                    {!isExamBlocked && <p className="text-sm text-gray-400 mt-4">Total Warnings: {maxWarnings !== null ? `${totalWarnings} / ${maxWarnings}` : totalWarnings}</p>}
+                    {isExamBlocked && (
+                        <button onClick={handleOpenIncidentReview} className="mt-6 px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                            Invigilator: Review Incidents
+                        </button>
+                    )}
                 </div>
             </div>
         )}
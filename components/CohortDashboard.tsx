@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { SessionBundle } from '../types';
+import { parseSessionBundle } from '../services/sessionExport';
+import { bundlesToScoredAttempts, isMockSession } from '../services/progressAnalytics';
+import { buildStationStats, getAiHumanDivergence, getChecklistHitRates, getProctoringFlagRates } from '../services/cohortAnalytics';
+import { violationLabels } from '../services/proctoringPolicy';
+
+interface CohortDashboardProps {
+  onBack: () => void;
+}
+
+const formatPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+const formatNumber = (value: number | null, digits: number = 1) => value === null ? '–' : value.toFixed(digits);
+
+const Histogram: React.FC<{ distribution: { score: number; count: number }[] }> = ({ distribution }) => {
+  const maxCount = Math.max(1, ...distribution.map(bin => bin.count));
+  return (
+    <div className="flex items-end gap-1 h-16">
+      {distribution.map(bin => (
+        <div key={bin.score} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bin.count} at ${bin.score}`}>
+          <div className="w-full bg-violet-500/70 rounded-t" style={{ height: `${(bin.count / maxCount) * 100}%` }} />
+          <span className="text-[10px] text-gray-500">{bin.score}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const CohortDashboard: React.FC<CohortDashboardProps> = ({ onBack }) => {
+  const [bundles, setBundles] = useState<SessionBundle[]>([]);
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files) return;
+    const loaded: SessionBundle[] = [];
+    const skipped: string[] = [];
+    for (const file of Array.from(files)) {
+      const bundle = parseSessionBundle(await file.text(), file.name);
+      if (!bundle) skipped.push(`${file.name} (not a session bundle)`);
+      // Mock sessions would count towards proctoring rates and AI-versus-examiner divergence as if they were real.
+      else if (isMockSession(bundle.session)) skipped.push(`${file.name} (run on the mock AI provider)`);
+      else loaded.push(bundle);
+    }
+    // Re-exports of the same session replace the earlier copy rather than counting twice.
+    setBundles(prev => {
+      const byId = new Map(prev.map(bundle => [bundle.session.id, bundle]));
+      loaded.forEach(bundle => byId.set(bundle.session.id, bundle));
+      return [...byId.values()];
+    });
+    setSkippedFiles(skipped);
+  };
+
+  const attempts = useMemo(() => bundlesToScoredAttempts(bundles), [bundles]);
+  const stations = useMemo(() => buildStationStats(attempts), [attempts]);
+  const checklistRates = useMemo(() => getChecklistHitRates(attempts), [attempts]);
+  const flagRates = useMemo(() => getProctoringFlagRates(bundles), [bundles]);
+  const divergence = useMemo(() => getAiHumanDivergence(bundles), [bundles]);
+  const candidateCount = useMemo(() => new Set(bundles.map(b => b.session.candidateIdentity.candidateId)).size, [bundles]);
+
+  return (
+    <div className="flex justify-center p-4 min-h-[calc(100vh-68px)]">
+      <div className="w-full max-w-6xl p-8 space-y-8 bg-black rounded-2xl shadow-2xl border border-gray-800">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h2 className="text-3xl font-extrabold text-white">Cohort Analytics</h2>
+            <p className="text-gray-400">
+              {bundles.length} session{bundles.length === 1 ? '' : 's'} · {candidateCount} candidate{candidateCount === 1 ? '' : 's'} · {attempts.length} scored
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="px-4 py-2 font-semibold text-white bg-violet-700 rounded-md hover:bg-violet-800 transition-all cursor-pointer">
+              Load Session Bundles
+              <input type="file" accept=".json,application/json" multiple className="hidden" onChange={e => { handleFilesSelected(e.target.files); e.target.value = ''; }} />
+            </label>
+            {bundles.length > 0 && (
+              <button onClick={() => { setBundles([]); setSkippedFiles([]); }} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                Clear
+              </button>
+            )}
+            <button onClick={onBack} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {skippedFiles.length > 0 && (
+          <p className="p-3 rounded-lg border border-amber-500/50 bg-amber-900/20 text-sm text-amber-300">
+            Skipped {skippedFiles.join(', ')}
+          </p>
+        )}
+
+        {bundles.length === 0 ? (
+          <p className="text-center text-gray-400">Load the JSON session bundles exported at the end of each exam to see cohort results.</p>
+        ) : (
+          <>
+            <section className="space-y-3">
+              <h3 className="text-xl font-bold text-white">Score Distributions by Station <span className="text-sm font-normal text-gray-400">· lowest pass rate first</span></h3>
+              {stations.map(station => (
+                <div key={station.caseId} className="p-4 rounded-lg border border-gray-700 bg-gray-900/40 space-y-3">
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <p className="font-semibold text-white">{station.caseTitle} <span className="text-sm font-normal text-gray-400">· {station.rubric.name}</span></p>
+                    <p className="text-sm text-gray-300">
+                      {station.attempts} attempts · mean {formatNumber(station.meanOverall)} · <span className={station.passRate < 0.5 ? 'text-red-400' : 'text-green-400'}>{formatPercent(station.passRate)} pass</span>
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <p className="text-xs font-semibold text-gray-400 mb-1">Overall</p>
+                      <Histogram distribution={station.overallDistribution} />
+                    </div>
+                    {station.categories.map(category => (
+                      <div key={category.categoryId}>
+                        <p className="text-xs font-semibold text-gray-400 mb-1 truncate" title={category.name}>{category.name} · mean {formatNumber(category.mean)}</p>
+                        <Histogram distribution={category.distribution} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </section>
+
+            {divergence.length > 0 && (
+              <section className="space-y-3">
+                <h3 className="text-xl font-bold text-white">AI vs Examiner Scores <span className="text-sm font-normal text-gray-400">· signed-off scorecards only, largest divergence first</span></h3>
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400">
+                    <tr><th className="py-1">Category</th><th>Rubric</th><th>Verified</th><th>Changed</th><th>Mean |difference|</th><th>Examiner − AI</th></tr>
+                  </thead>
+                  <tbody>
+                    {divergence.map(row => (
+                      <tr key={`${row.rubricId}:${row.categoryId}`} className="border-t border-gray-800 text-gray-200">
+                        <td className="py-1">{row.name}</td>
+                        <td className="text-gray-400">{row.rubricId}</td>
+                        <td>{row.verifiedSessions}</td>
+                        <td>{formatPercent(row.changedByExaminer / row.verifiedSessions)}</td>
+                        <td className={(row.meanAbsoluteDifference ?? 0) >= 1 ? 'text-amber-400 font-semibold' : ''}>{formatNumber(row.meanAbsoluteDifference, 2)}</td>
+                        <td>{row.meanHumanMinusAi !== null && row.meanHumanMinusAi > 0 ? '+' : ''}{formatNumber(row.meanHumanMinusAi, 2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {checklistRates.length > 0 && (
+              <section className="space-y-3">
+                <h3 className="text-xl font-bold text-white">Checklist Hit Rates</h3>
+                <ul className="space-y-2">
+                  {checklistRates.map(item => (
+                    <li key={`${item.caseId}:${item.itemId}`} className="text-sm">
+                      <div className="flex justify-between text-gray-200">
+                        <span>{item.label} <span className="text-gray-500">· {item.caseTitle}</span></span>
+                        <span className="text-gray-400">{item.covered} of {item.attempts} ({formatPercent(item.covered / item.attempts)})</span>
+                      </div>
+                      <div className="h-2 mt-1 bg-gray-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500/70" style={{ width: `${(item.covered / item.attempts) * 100}%` }} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="space-y-3">
+              <h3 className="text-xl font-bold text-white">Proctoring Flags</h3>
+              {flagRates.length === 0 ? (
+                <p className="text-green-400">No proctoring incidents in these sessions.</p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400">
+                    <tr><th className="py-1">Violation</th><th>Sessions flagged</th><th>Incidents</th><th>Confirmed</th><th>Dismissed</th></tr>
+                  </thead>
+                  <tbody>
+                    {flagRates.map(rate => (
+                      <tr key={rate.category} className="border-t border-gray-800 text-gray-200">
+                        <td className="py-1">{violationLabels[rate.category] ?? rate.category}</td>
+                        <td>{rate.flaggedSessions} ({formatPercent(rate.flaggedSessions / bundles.length)})</td>
+                        <td>{rate.incidents}</td>
+                        <td>{rate.confirmed}</td>
+                        <td>{rate.dismissed}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CohortDashboard;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { CandidateIdentity, ProctoringHealth, ProctoringIncident } from '../types';
+import { violationLabels } from '../services/proctoringPolicy';
+import { getFailureRate } from '../services/proctoringHealth';
+
+interface IncidentReviewProps {
+  incidents: ProctoringIncident[];
+  candidateIdentity: CandidateIdentity | null;
+  proctoringHealth: ProctoringHealth | null;
+  examStartedAt: string | null;
+  onReview: (incidentId: string, decision: 'confirmed' | 'dismissed', reviewerId: string) => void;
+}
+
+const formatOffset = (timestamp: string, examStartedAt: string | null): string => {
+  if (!examStartedAt) return new Date(timestamp).toLocaleTimeString();
+  const seconds = Math.max(0, Math.round((Date.parse(timestamp) - Date.parse(examStartedAt)) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} into exam`;
+};
+
+const reviewStyles = {
+  pending: 'border-amber-500/50 bg-amber-900/20',
+  confirmed: 'border-red-500/50 bg-red-900/20',
+  dismissed: 'border-gray-700 bg-gray-900/40 opacity-70',
+};
+
+const IncidentCard: React.FC<{
+  incident: ProctoringIncident;
+  examStartedAt: string | null;
+  canReview: boolean;
+  onReview: (decision: 'confirmed' | 'dismissed') => void;
+}> = ({ incident, examStartedAt, canReview, onReview }) => (
+  <li className={`flex gap-4 p-4 rounded-lg border ${reviewStyles[incident.review]}`}>
+    {incident.snapshot ? (
+      <img src={incident.snapshot} alt="Frame that triggered the alert" className="w-40 h-auto rounded-md border border-gray-700 transform -scale-x-100 flex-shrink-0" />
+    ) : (
+      <div className="w-40 h-24 rounded-md border border-gray-700 bg-black/40 flex items-center justify-center text-xs text-gray-500 flex-shrink-0">
+        No snapshot
+      </div>
+    )}
+    <div className="flex-grow space-y-1">
+      <div className="flex flex-wrap justify-between gap-2">
+        <p className="font-semibold text-white">
+          {violationLabels[incident.category]}
+          <span className="ml-2 px-2 py-0.5 rounded-full text-xs uppercase tracking-wide bg-gray-800 text-gray-300 border border-gray-700">{incident.severity}</span>
+        </p>
+        <p className="text-sm text-gray-400">
+          {new Date(incident.timestamp).toLocaleTimeString()} · {formatOffset(incident.timestamp, examStartedAt)}
+        </p>
+      </div>
+      <p className="text-gray-300">{incident.reason}</p>
+      {incident.audioClip && (
+        <audio controls src={incident.audioClip} className="w-full max-w-md h-8">
+          Your browser does not support audio playback.
+        </audio>
+      )}
+      {incident.confidence !== null && (
+        <p className="text-xs text-gray-500">Model confidence: {Math.round(incident.confidence * 100)}%</p>
+      )}
+      {incident.review === 'pending' ? (
+        <div className="flex gap-2 pt-2">
+          <button onClick={() => onReview('confirmed')} disabled={!canReview} className="px-3 py-1 text-sm font-semibold text-white bg-red-600 rounded-md transition-all hover:enabled:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed">
+            Confirm
+          </button>
+          <button onClick={() => onReview('dismissed')} disabled={!canReview} className="px-3 py-1 text-sm font-semibold text-white bg-gray-600 rounded-md transition-all hover:enabled:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">
+            Dismiss
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 pt-1">
+          {incident.review === 'confirmed' ? 'Confirmed' : 'Dismissed'} by <span className="font-semibold">{incident.reviewedBy}</span>
+          {incident.reviewedAt && ` at ${new Date(incident.reviewedAt).toLocaleTimeString()}`}
+        </p>
+      )}
+    </div>
+  </li>
+);
+
+const IdentityEnrolment: React.FC<{ identity: CandidateIdentity }> = ({ identity }) => (
+  <div className={`p-4 rounded-lg border ${identity.verification.status === 'match' ? 'border-gray-700 bg-gray-900/40' : 'border-amber-500/50 bg-amber-900/20'}`}>
+    <p className="font-semibold text-white">Candidate Identity</p>
+    <p className="text-sm text-gray-400">
+      Candidate {identity.candidateId} · Enrolled at {new Date(identity.capturedAt).toLocaleTimeString()} · ID check: {identity.verification.reason}
+      {identity.verification.confidence !== null && ` (${Math.round(identity.verification.confidence * 100)}% confidence)`}
+    </p>
+    <div className="flex gap-3 mt-2">
+      <img src={identity.idCardPhoto} alt="Candidate ID card" className="w-40 h-auto rounded-md border border-gray-700 transform -scale-x-100" />
+      <img src={identity.referenceFace} alt="Enrolled reference face" className="w-40 h-auto rounded-md border border-gray-700 transform -scale-x-100" />
+    </div>
+  </div>
+);
+
+const ProctoringCoverage: React.FC<{ health: ProctoringHealth; examStartedAt: string | null }> = ({ health, examStartedAt }) => (
+  <div className={`p-4 rounded-lg border ${health.unproctoredIntervals.length > 0 ? 'border-amber-500/50 bg-amber-900/20' : 'border-gray-700 bg-gray-900/40'}`}>
+    <p className="font-semibold text-white">Proctoring Coverage</p>
+    <p className="text-sm text-gray-400">
+      {health.totalChecks} checks · {health.failedChecks} failed ({Math.round(getFailureRate(health) * 100)}% failure rate)
+    </p>
+    {health.unproctoredIntervals.length > 0 && (
+      <ul className="mt-2 space-y-1 text-sm text-amber-300">
+        {health.unproctoredIntervals.map(interval => (
+          <li key={interval.start}>
+            Unproctored from {formatOffset(interval.start, examStartedAt)} to {interval.end ? formatOffset(interval.end, examStartedAt) : 'end of exam'}
+            {' '}({interval.failedChecks} failed checks{interval.acknowledgedBy ? `, continued by invigilator ${interval.acknowledgedBy}` : ''})
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const IncidentReview: React.FC<IncidentReviewProps> = ({ incidents, candidateIdentity, proctoringHealth, examStartedAt, onReview }) => {
+  const [reviewerId, setReviewerId] = useState('');
+  const pendingCount = incidents.filter(i => i.review === 'pending').length;
+  const confirmedCount = incidents.filter(i => i.review === 'confirmed').length;
+  const canReview = reviewerId.trim().length > 0;
+
+  return (
+    <div className="flex justify-center p-4 min-h-[calc(100vh-68px)]">
+      <div className="w-full max-w-4xl p-8 space-y-6 bg-black rounded-2xl shadow-2xl border border-gray-800">
+        <div>
+          <h2 className="text-3xl font-extrabold text-center text-white">Proctoring Incident Review</h2>
+          <p className="mt-2 text-center text-gray-400">
+            {incidents.length} incident{incidents.length === 1 ? '' : 's'} recorded · {confirmedCount} confirmed · {pendingCount} pending review
+          </p>
+        </div>
+
+        {candidateIdentity && <IdentityEnrolment identity={candidateIdentity} />}
+
+        {proctoringHealth && <ProctoringCoverage health={proctoringHealth} examStartedAt={examStartedAt} />}
+
+        <div className="flex items-center gap-3">
+          <label htmlFor="invigilator-id" className="text-sm font-semibold text-gray-300">Invigilator ID</label>
+          <input
+            id="invigilator-id"
+            type="text"
+            value={reviewerId}
+            onChange={e => setReviewerId(e.target.value)}
+            className="px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-violet-500"
+          />
+        </div>
+
+        {incidents.length === 0 ? (
+          <p className="text-center text-green-400 font-semibold">No proctoring incidents were recorded during this exam.</p>
+        ) : (
+          <ul className="space-y-3">
+            {incidents.map(incident => (
+              <IncidentCard
+                key={incident.id}
+                incident={incident}
+                examStartedAt={examStartedAt}
+                canReview={canReview}
+                onReview={decision => onReview(incident.id, decision, reviewerId)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentReview;
@@ -1,17 +1,61 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeStudentFrame, ai } from '../services/geminiService';
-import { ProctoringResult } from '../types';
-import { LiveServerMessage, Modality } from '@google/genai';
-import { createBlob } from '../services/audioUtils';
+import { ExamAIProvider, LiveSession } from '../services/aiProvider';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from '../services/audioCapture';
+import { createVoiceActivityDetector } from '../services/voiceActivity';
+import MicLevelMeter from './MicLevelMeter';
+import { ProctoringResult, ClinicalCase, ProctoringPolicy, CandidateIdentity, IdentityMatchResult } from '../types';
+import { violationLabels } from '../services/proctoringPolicy';
+import { caseLibrary } from '../services/caseLibrary';
+import { createThumbnail } from '../services/imageUtils';
 
 interface LobbyProps {
-  onStartExam: () => void;
+  policy: ProctoringPolicy;
+  aiProvider: ExamAIProvider;
+  onStartExam: (clinicalCase: ClinicalCase, identity: CandidateIdentity) => void;
+  onViewProgress: () => void;
 }
 
+const CasePicker: React.FC<{ cases: ClinicalCase[]; selectedCaseId: string; onSelect: (id: string) => void; disabled: boolean }> = ({ cases, selectedCaseId, onSelect, disabled }) => {
+  if (cases.length === 0) {
+    return (
+      <div className="p-3 rounded-lg border text-red-400 border-red-500/50 bg-red-900/20 text-center font-semibold">
+        No clinical cases are available. Please contact your examiner.
+      </div>
+    );
+  }
+
+  const selectedCase = cases.find(c => c.id === selectedCaseId);
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="case-picker" className="block text-sm font-semibold text-gray-300">Clinical Station</label>
+      <select
+        id="case-picker"
+        value={selectedCaseId}
+        onChange={e => onSelect(e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2 bg-gray-900 text-white rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500 disabled:opacity-60"
+      >
+        {cases.map(c => (
+          <option key={c.id} value={c.id}>{c.title}</option>
+        ))}
+      </select>
+      {selectedCase && (
+        <p className="text-sm text-gray-400">
+          Patient: {selectedCase.demographics.name}, {selectedCase.demographics.age}. {selectedCase.chiefComplaint}
+        </p>
+      )}
+    </div>
+  );
+};
+
 const ProctoringStatus: React.FC<{ result: ProctoringResult }> = ({ result }) => {
-  const isClear = result.reason === "All clear";
-  const isInitial = result.reason === "Initializing..." || result.reason === 'Starting proctoring...';
-  const isError = result.reason.includes("AI analysis failed") || result.reason.includes("Could not access camera");
+  const isClear = result.status === 'clear';
+  const isInitial = result.status === 'unknown';
+  const isError = result.status === 'error';
+  const message = result.status === 'violation' && result.violationType
+    ? `${violationLabels[result.violationType]}: ${result.reason}`
+    : result.reason;
 
   let color = 'text-amber-400 border-amber-500/50 bg-amber-900/20';
   let icon = <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />;
@@ -30,34 +74,42 @@ const ProctoringStatus: React.FC<{ result: ProctoringResult }> = ({ result }) =>
       <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
         {icon}
       </svg>
-      <span className="font-semibold">{result.reason}</span>
+      <span className="font-semibold">{message}</span>
     </div>
   );
 };
 
 
-const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
-  const [proctoringResult, setProctoringResult] = useState<ProctoringResult>({ isCheating: false, reason: 'Initializing...' });
+const Lobby: React.FC<LobbyProps> = ({ policy, aiProvider, onStartExam, onViewProgress }) => {
+  const [selectedCaseId, setSelectedCaseId] = useState(caseLibrary[0]?.id ?? '');
+  const [proctoringResult, setProctoringResult] = useState<ProctoringResult>({ status: 'unknown', violationType: null, confidence: null, reason: 'Initializing...' });
   const [isSetupActive, setIsSetupActive] = useState(false);
   const [proctoringPassed, setProctoringPassed] = useState(false);
   const [clearChecks, setClearChecks] = useState(0);
 
+  const [candidateId, setCandidateId] = useState('');
+  const [identityStep, setIdentityStep] = useState<'id-card' | 'face' | 'verifying' | 'verified' | 'failed'>('id-card');
+  const [idCardPhoto, setIdCardPhoto] = useState<string | null>(null);
+  const [referenceFace, setReferenceFace] = useState<string | null>(null);
+  const [identityResult, setIdentityResult] = useState<IdentityMatchResult | null>(null);
+
   const [micCheckState, setMicCheckState] = useState<'idle' | 'starting' | 'checking' | 'passed' | 'error'>('idle');
   const [micTranscript, setMicTranscript] = useState('');
+  const [micVoiceActivity] = useState(() => createVoiceActivityDetector(CAPTURE_SAMPLE_RATE));
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const proctoringIntervalRef = useRef<number | null>(null);
 
-  const micSessionPromiseRef = useRef<Promise<any> | null>(null);
+  const micSessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const micAudioContextRef = useRef<AudioContext | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
-  const micScriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<AudioCapture | null>(null);
   const micMediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
 
   const stopMicCheck = () => {
     micSessionPromiseRef.current?.then(session => session.close());
-    micScriptProcessorRef.current?.disconnect();
+    micCaptureRef.current?.stop();
     micMediaStreamSourceRef.current?.disconnect();
     micStreamRef.current?.getTracks().forEach(track => track.stop());
     if (micAudioContextRef.current && micAudioContextRef.current.state !== 'closed') {
@@ -80,13 +132,13 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
       const stream = await navigator.mediaDevices.getUserMedia({ video: true });
       if (videoRef.current) videoRef.current.srcObject = stream;
       setIsSetupActive(true);
-      setProctoringResult({isCheating: false, reason: 'Starting proctoring...'});
+      setProctoringResult({ status: 'unknown', violationType: null, confidence: null, reason: 'Starting proctoring...' });
       
-      proctoringIntervalRef.current = window.setInterval(runProctoringCheck, 3000); // Faster check
+      proctoringIntervalRef.current = window.setInterval(runProctoringCheck, policy.lobbyCheckIntervalMs);
 
     } catch (err) {
       console.error("Error accessing camera:", err);
-      setProctoringResult({ isCheating: true, reason: 'Could not access camera. Please grant permission.' });
+      setProctoringResult({ status: 'error', violationType: null, confidence: null, reason: 'Could not access camera. Please grant permission.' });
     }
   };
 
@@ -102,13 +154,13 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
       const base64ImageData = canvas.toDataURL('image/jpeg').split(',')[1];
       
-      const result = await analyzeStudentFrame(base64ImageData);
+      const result = await aiProvider.analyzeFrame(base64ImageData);
       setProctoringResult(result);
       
-      if (!result.isCheating && result.reason === "All clear") {
+      if (result.status === 'clear') {
         setClearChecks(prev => {
           const newCount = prev + 1;
-          if (newCount >= 2) { // Require 2 consecutive clear checks
+          if (newCount >= policy.lobbyClearChecksRequired) {
             setProctoringPassed(true);
             if (proctoringIntervalRef.current) clearInterval(proctoringIntervalRef.current);
           }
@@ -120,59 +172,74 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
     }
   };
 
+  // ID cards need more detail than evidence thumbnails to be legible.
+  const captureFrame = (): string | null => {
+    if (!videoRef.current || !canvasRef.current || videoRef.current.readyState < 2) return null;
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return createThumbnail(canvas, 960);
+  };
+
+  const handleCaptureIdCard = () => {
+    const photo = captureFrame();
+    if (!photo) return;
+    setIdCardPhoto(photo);
+    setIdentityStep('face');
+  };
+
+  const handleCaptureFace = async () => {
+    const face = captureFrame();
+    if (!face || !idCardPhoto) return;
+    setReferenceFace(face);
+    setIdentityStep('verifying');
+    const result = await aiProvider.compareFaces(idCardPhoto.split(',')[1], face.split(',')[1], 'id-card');
+    setIdentityResult(result);
+    const isMatch = result.status === 'match' && (result.confidence === null || result.confidence >= policy.minConfidence);
+    setIdentityStep(isMatch ? 'verified' : 'failed');
+  };
+
+  const handleRetakeIdentity = () => {
+    setIdCardPhoto(null);
+    setReferenceFace(null);
+    setIdentityResult(null);
+    setIdentityStep('id-card');
+  };
+
   const handleStartMicCheck = async () => {
     setMicCheckState('starting');
     setMicTranscript('');
     try {
         micStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
         
-        micAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        micAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
         const audioContext = micAudioContextRef.current;
         
         micMediaStreamSourceRef.current = audioContext.createMediaStreamSource(micStreamRef.current);
         const source = micMediaStreamSourceRef.current;
 
-        const scriptProcessor = audioContext.createScriptProcessor(4096, 1, 1);
-        micScriptProcessorRef.current = scriptProcessor;
-
-        micSessionPromiseRef.current = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            config: {
-                responseModalities: [Modality.AUDIO], // This was missing
-                inputAudioTranscription: {},
+        micSessionPromiseRef.current = aiProvider.connectTranscriber({
+            onOpen: () => setMicCheckState('checking'),
+            onInputTranscription: (newText) => {
+                if(newText) setMicTranscript(prev => (prev + ' ' + newText).trim());
             },
-            callbacks: {
-                onopen: () => setMicCheckState('checking'),
-                onmessage: (message: LiveServerMessage) => {
-                    if (message.serverContent?.inputTranscription) {
-                         const newText = message.serverContent.inputTranscription.text;
-                        if(newText) setMicTranscript(prev => (prev + ' ' + newText).trim());
-                    }
-                },
-                onerror: (e) => {
-                    console.error("Mic check connection error:", e);
-                    setMicCheckState('error');
-                },
-                onclose: () => {
-                   if (micCheckState !== 'passed') setMicCheckState('idle');
-                }
+            onError: (e) => {
+                console.error("Mic check connection error:", e);
+                setMicCheckState('error');
+            },
+            onClose: () => {
+               if (micCheckState !== 'passed') setMicCheckState('idle');
             }
         });
-        
-        scriptProcessor.onaudioprocess = (event) => {
-            const inputData = event.inputBuffer.getChannelData(0);
-            const pcmBlob = createBlob(inputData);
+
+        micCaptureRef.current = await startAudioCapture(audioContext, source, (samples) => {
+            micVoiceActivity.process(samples);
             micSessionPromiseRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
+                session.sendAudio(samples);
             });
-        };
-
-        const gainNode = audioContext.createGain();
-        gainNode.gain.setValueAtTime(0, audioContext.currentTime);
-
-        source.connect(scriptProcessor);
-        scriptProcessor.connect(gainNode);
-        gainNode.connect(audioContext.destination);
+        });
 
     } catch (err) {
         console.error("Error setting up mic check:", err);
@@ -181,15 +248,23 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
   };
   
   const handleConfirmMic = () => {
+    const selectedCase = caseLibrary.find(c => c.id === selectedCaseId);
+    if (!selectedCase || !idCardPhoto || !referenceFace || !identityResult) return;
     setMicCheckState('passed');
     stopMicCheck();
-    onStartExam();
+    onStartExam(selectedCase, {
+      candidateId: candidateId.trim(),
+      idCardPhoto,
+      referenceFace,
+      capturedAt: new Date().toISOString(),
+      verification: identityResult,
+    });
   };
 
   const renderActionArea = () => {
     if (!isSetupActive) {
         return (
-            <button onClick={startSetup} className="w-full px-4 py-3 text-lg font-semibold text-white bg-violet-700 rounded-md hover:bg-violet-800 transition-all transform hover:scale-[1.02] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-violet-500 focus:ring-offset-black">
+            <button onClick={startSetup} disabled={!selectedCaseId} className="w-full disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-3 text-lg font-semibold text-white bg-violet-700 rounded-md hover:bg-violet-800 transition-all transform hover:scale-[1.02] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-violet-500 focus:ring-offset-black">
               Start Setup
             </button>
         );
@@ -203,11 +278,64 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
         );
     }
     
+    if (identityStep !== 'verified') {
+        return (
+            <div className="w-full p-4 space-y-3 bg-gray-800/50 rounded-lg border border-gray-700/50 transition-all">
+                <h3 className="text-lg font-semibold text-center text-cyan-300">
+                    Step 2: Identity Verification
+                </h3>
+                {(idCardPhoto || referenceFace) && (
+                    <div className="flex justify-center gap-3">
+                        {idCardPhoto && <img src={idCardPhoto} alt="Captured ID card" className="w-40 h-auto rounded-md border border-gray-700 transform -scale-x-100" />}
+                        {referenceFace && <img src={referenceFace} alt="Captured reference face" className="w-40 h-auto rounded-md border border-gray-700 transform -scale-x-100" />}
+                    </div>
+                )}
+                {identityStep === 'id-card' && (
+                    <>
+                        <div className="flex items-center gap-3">
+                            <label htmlFor="candidate-id" className="text-sm font-semibold text-gray-300 whitespace-nowrap">Candidate Number</label>
+                            <input
+                                id="candidate-id"
+                                type="text"
+                                value={candidateId}
+                                onChange={e => setCandidateId(e.target.value)}
+                                className="flex-grow px-3 py-2 bg-gray-900 text-white rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                            />
+                        </div>
+                        <p className="text-center text-gray-400 text-sm">Hold your official photo ID up to the camera so the photo and name are clearly visible.</p>
+                        <button onClick={handleCaptureIdCard} disabled={!candidateId.trim()} className="w-full px-4 py-2 font-semibold text-white bg-gradient-to-r from-cyan-600 to-blue-600 rounded-md transition-all hover:enabled:from-cyan-700 hover:enabled:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">
+                            Capture ID Card
+                        </button>
+                    </>
+                )}
+                {identityStep === 'face' && (
+                    <>
+                        <p className="text-center text-gray-400 text-sm">Now put the ID away and look straight at the camera. This image is used to confirm your identity throughout the exam.</p>
+                        <button onClick={handleCaptureFace} className="w-full px-4 py-2 font-semibold text-white bg-gradient-to-r from-cyan-600 to-blue-600 rounded-md hover:from-cyan-700 hover:to-blue-700 transition-all">
+                            Capture Reference Photo
+                        </button>
+                    </>
+                )}
+                {identityStep === 'verifying' && (
+                    <p className="text-center text-gray-400 text-sm animate-pulse">Comparing your face with your ID...</p>
+                )}
+                {identityStep === 'failed' && (
+                    <>
+                        <p className="text-center text-red-400 text-sm">Identity could not be verified: {identityResult?.reason}</p>
+                        <button onClick={handleRetakeIdentity} className="w-full px-4 py-2 font-semibold text-white bg-gradient-to-r from-amber-600 to-orange-600 rounded-md hover:from-amber-700 hover:to-orange-700 transition-all">
+                            Retake Photos
+                        </button>
+                    </>
+                )}
+            </div>
+        );
+    }
+
     // Microphone Check UI
     return (
         <div className="w-full p-4 space-y-3 bg-gray-800/50 rounded-lg border border-gray-700/50 transition-all">
             <h3 className="text-lg font-semibold text-center text-cyan-300">
-                Step 2: Microphone Check
+                Step 3: Microphone Check
             </h3>
             {micCheckState === 'idle' && (
                 <>
@@ -219,7 +347,10 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
             )}
             {(micCheckState === 'starting' || micCheckState === 'checking') && (
                  <>
-                    <p className="text-center text-gray-400 text-sm animate-pulse">Please say a few words, like "Testing one, two, three."</p>
+                    <div className="flex items-center justify-center gap-3">
+                        <p className="text-center text-gray-400 text-sm animate-pulse">Please say a few words, like "Testing one, two, three."</p>
+                        <MicLevelMeter detector={micVoiceActivity} />
+                    </div>
                     <div className="min-h-[60px] w-full p-3 bg-black/40 rounded-md border border-gray-600 text-gray-200 italic transition-all">
                         {micTranscript || (micCheckState === 'starting' ? 'Initializing...' : 'Listening...')}
                     </div>
@@ -256,7 +387,16 @@ const Lobby: React.FC<LobbyProps> = ({ onStartExam }) => {
           <p className="mt-2 text-center text-gray-400">
             Please complete the following steps to begin your exam.
           </p>
+          {!isSetupActive && (
+            <p className="mt-1 text-center">
+              <button onClick={onViewProgress} className="text-sm font-semibold text-violet-400 hover:text-violet-300 transition-all">
+                View my progress across past attempts
+              </button>
+            </p>
+          )}
         </div>
+
+        <CasePicker cases={caseLibrary} selectedCaseId={selectedCaseId} onSelect={setSelectedCaseId} disabled={micCheckState === 'passed'} />
         
         <div className="w-full aspect-video bg-black rounded-lg overflow-hidden border border-gray-700 relative">
           <video ref={videoRef} autoPlay muted className={`w-full h-full object-cover transform -scale-x-100 transition-opacity duration-500 ${isSetupActive ? 'opacity-100' : 'opacity-0'}`} />
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScoreAuditTrail, ScoreData, StoredSession } from '../types';
+import { listSessions, updateSession } from '../services/sessionStore';
+import { caseLibrary } from '../services/caseLibrary';
+import { getRubricForCase } from '../services/rubricLibrary';
+import { updateCategoryScore } from '../services/scoring';
+import { getCurrentScore, isScorecardLocked, recordScoreEdit, signOffScorecard } from '../services/scoreAudit';
+import { buildCandidateReportHtml, buildSessionBundle, buildSessionCsv, downloadFile, getExportFilename, printReport } from '../services/sessionExport';
+import { countInterruptions } from '../services/transcriptTiming';
+import Scorecard from './Scorecard';
+
+interface MarkingViewProps {
+  onBack: () => void;
+}
+
+// The examiner's side of the audit trail: completed sessions on this device whose scorecards can be edited and signed off.
+// Candidates only ever see their scorecard read-only, so nothing here is reachable from the exam screens.
+const MarkingView: React.FC<MarkingViewProps> = ({ onBack }) => {
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [examinerId, setExaminerId] = useState('');
+  const [editReason, setEditReason] = useState('');
+  const [editedScoreData, setEditedScoreData] = useState<ScoreData | null>(null);
+  const [highlightedTurns, setHighlightedTurns] = useState<number[]>([]);
+
+  useEffect(() => {
+    listSessions().then(stored => setSessions(stored.filter(session => session.status === 'completed' && session.scoreAudit !== null)));
+  }, []);
+
+  const selected = useMemo(() => sessions?.find(session => session.id === selectedId) ?? null, [sessions, selectedId]);
+  const clinicalCase = selected ? caseLibrary.find(c => c.id === selected.caseId) ?? null : null;
+  const rubric = clinicalCase ? getRubricForCase(clinicalCase) : null;
+
+  const handleSelect = (sessionId: string) => {
+    setSelectedId(sessionId);
+    setEditedScoreData(null);
+    setEditReason('');
+    setHighlightedTurns([]);
+  };
+
+  // Every change is stored straight away, so the audit trail survives the examiner closing the page.
+  const saveScoreAudit = (scoreAudit: ScoreAuditTrail) => {
+    if (!selected) return;
+    updateSession(selected.id, session => ({ ...session, scoreAudit }));
+    setSessions(prev => prev && prev.map(session => session.id === selected.id ? { ...session, scoreAudit } : session));
+  };
+
+  const handleEdit = () => {
+    if (!selected?.scoreAudit || isScorecardLocked(selected.scoreAudit)) return;
+    setEditedScoreData(getCurrentScore(selected.scoreAudit));
+  };
+
+  const handleCancel = () => {
+    setEditedScoreData(null);
+    setEditReason('');
+  };
+
+  const handleSave = () => {
+    if (!selected?.scoreAudit || !editedScoreData || !examinerId.trim() || !editReason.trim()) return;
+    // Edits are appended to the audit trail; the original AI score is never overwritten.
+    saveScoreAudit(recordScoreEdit(selected.scoreAudit, editedScoreData, examinerId.trim(), editReason.trim()));
+    handleCancel();
+  };
+
+  const handleSignOff = () => {
+    if (!selected?.scoreAudit || !examinerId.trim()) return;
+    saveScoreAudit(signOffScorecard(selected.scoreAudit, examinerId.trim()));
+  };
+
+  const handleScoreChange = (categoryId: string, score: number) => {
+    if (!rubric) return;
+    // Overall score and pass/fail are recalculated from the rubric weights.
+    setEditedScoreData(prev => prev && updateCategoryScore(rubric, prev, categoryId, score));
+  };
+
+  const handleExport = (format: 'print' | 'json' | 'csv') => {
+    if (!selected || !clinicalCase || !rubric) return;
+    const bundle = buildSessionBundle(selected, clinicalCase, rubric);
+    if (format === 'print') {
+      printReport(buildCandidateReportHtml(bundle));
+    } else if (format === 'json') {
+      downloadFile(getExportFilename(bundle, 'json'), JSON.stringify(bundle, null, 2), 'application/json');
+    } else {
+      downloadFile(getExportFilename(bundle, 'csv'), buildSessionCsv([bundle]), 'text/csv');
+    }
+  };
+
+  return (
+    <div className="flex justify-center p-4 min-h-[calc(100vh-68px)]">
+      <div className="w-full max-w-6xl p-8 space-y-8 bg-black rounded-2xl shadow-2xl border border-gray-800">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h2 className="text-3xl font-extrabold text-white">Examiner Marking</h2>
+            <p className="text-gray-400">Review, edit and sign off the scorecards of completed exams on this device.</p>
+          </div>
+          <button onClick={onBack} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+            Back
+          </button>
+        </div>
+
+        {sessions === null ? (
+          <p className="text-center text-gray-400 animate-pulse">Loading completed exams...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-center text-gray-400">No completed exams with a scorecard on this device.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+            <ul className="space-y-2">
+              {sessions.map(session => (
+                <li key={session.id}>
+                  <button
+                    onClick={() => handleSelect(session.id)}
+                    className={`w-full text-left p-3 rounded-lg border transition-all ${session.id === selectedId ? 'border-violet-500 bg-violet-900/20' : 'border-gray-700 bg-gray-900/40 hover:border-gray-500'}`}
+                  >
+                    <p className="font-semibold text-white">Candidate {session.candidateIdentity.candidateId}</p>
+                    <p className="text-sm text-gray-400">{caseLibrary.find(c => c.id === session.caseId)?.title ?? session.caseId}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(session.startedAt).toLocaleString()} · {session.scoreAudit && isScorecardLocked(session.scoreAudit) ? 'Signed off' : 'Awaiting sign-off'}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {!selected ? (
+              <p className="text-gray-400">Choose an exam to mark.</p>
+            ) : !clinicalCase || !rubric || !selected.scoreAudit ? (
+              <p className="text-red-400">The station for this exam is no longer in the case library, so it cannot be marked here.</p>
+            ) : (
+              <div className="space-y-4">
+                <Scorecard
+                  rubric={rubric}
+                  scoreAudit={selected.scoreAudit}
+                  interruptions={countInterruptions(selected.transcripts)}
+                  onShowEvidence={setHighlightedTurns}
+                  marking={{
+                    editedScoreData,
+                    isEditing: editedScoreData !== null,
+                    examinerId,
+                    editReason,
+                    onExaminerIdChange: setExaminerId,
+                    onEditReasonChange: setEditReason,
+                    onVerify: handleSignOff,
+                    onEdit: handleEdit,
+                    onCancel: handleCancel,
+                    onSave: handleSave,
+                    onScoreChange: handleScoreChange,
+                  }}
+                />
+                <div className="flex flex-wrap gap-3">
+                  <button onClick={() => handleExport('print')} className="px-4 py-2 font-semibold text-white bg-violet-700 rounded-md hover:bg-violet-800 transition-all">
+                    Print / Save Report as PDF
+                  </button>
+                  <button onClick={() => handleExport('json')} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                    Session Data (JSON)
+                  </button>
+                  <button onClick={() => handleExport('csv')} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                    Results Row (CSV)
+                  </button>
+                </div>
+                <section className="space-y-2">
+                  <h3 className="text-xl font-bold text-white">Transcript</h3>
+                  <ol className="space-y-1 text-sm">
+                    {selected.transcripts.map((turn, i) => (
+                      <li key={i} className={`p-2 rounded ${highlightedTurns.includes(i) ? 'bg-cyan-900/40 border border-cyan-500/50' : 'bg-gray-900/40'}`}>
+                        <span className="text-gray-500 mr-2">{i + 1}.</span>
+                        <span className="font-semibold text-gray-300">{turn.role}:</span> <span className="text-gray-200">{turn.text}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarkingView;
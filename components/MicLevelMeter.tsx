@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceActivityDetector } from '../services/voiceActivity';
+
+interface MicLevelMeterProps {
+  detector: VoiceActivityDetector;
+}
+
+const SEGMENTS = 10;
+
+// A segmented bar showing how loud the microphone input is, highlighted while the candidate is heard speaking.
+// It follows the detector itself, so the level changing ten times a second only re-renders the meter.
+const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ detector }) => {
+  const [level, setLevel] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  useEffect(() => detector.subscribe(activity => {
+    // Rounded so the meter only re-renders when the level visibly changes.
+    setLevel(Math.round(activity.level * 20) / 20);
+    setIsSpeaking(activity.isSpeaking);
+  }), [detector]);
+
+  const litSegments = Math.round(level * SEGMENTS);
+  return (
+    <div
+      role="meter"
+      aria-label="Microphone level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+      className="flex items-end gap-0.5 h-4"
+    >
+      {Array.from({ length: SEGMENTS }, (_, i) => (
+        <div
+          key={i}
+          style={{ height: `${40 + i * 6}%` }}
+          className={`w-1 rounded-sm transition-colors ${i < litSegments ? (isSpeaking ? 'bg-green-400' : 'bg-gray-300') : 'bg-gray-700'}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default MicLevelMeter;
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Rubric, StoredSession } from '../types';
+import { listSessions } from '../services/sessionStore';
+import { caseLibrary } from '../services/caseLibrary';
+import {
+  CategoryTrend, ScoredAttempt, buildCategoryTrends, findRecurringWeaknesses, getMostMissedChecklistItems, groupAttemptsByCase, toScoredAttempts,
+} from '../services/progressAnalytics';
+
+interface ProgressDashboardProps {
+  onBack: () => void;
+}
+
+const TrendChart: React.FC<{ trend: CategoryTrend; rubric: Rubric }> = ({ trend, rubric }) => {
+  const width = 260;
+  const height = 90;
+  const pad = 10;
+  const { min, max } = rubric.scale;
+  const x = (i: number) => trend.points.length === 1 ? width / 2 : pad + (i * (width - 2 * pad)) / (trend.points.length - 1);
+  const y = (score: number) => height - pad - ((score - min) / (max - min)) * (height - 2 * pad);
+  const changeColor = trend.change === null || trend.change === 0 ? 'text-gray-400' : trend.change > 0 ? 'text-green-400' : 'text-red-400';
+
+  return (
+    <div className="p-3 rounded-lg border border-gray-700 bg-gray-900/40">
+      <div className="flex justify-between items-baseline">
+        <p className="font-semibold text-white text-sm">{trend.name}</p>
+        <p className={`text-xs font-semibold ${changeColor}`}>
+          {trend.change === null ? `${trend.points.length} attempt${trend.points.length === 1 ? '' : 's'}` : `${trend.change > 0 ? '+' : ''}${trend.change} since first attempt`}
+        </p>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-24 mt-1">
+        <line x1={pad} x2={width - pad} y1={y(rubric.passThreshold)} y2={y(rubric.passThreshold)} stroke="#6b7280" strokeDasharray="4 4" strokeWidth={1} />
+        <polyline fill="none" stroke="#8b5cf6" strokeWidth={2} points={trend.points.map((p, i) => `${x(i)},${y(p.score)}`).join(' ')} />
+        {trend.points.map((p, i) => (
+          <circle key={i} cx={x(i)} cy={y(p.score)} r={3.5} fill={p.score >= rubric.passThreshold ? '#4ade80' : '#f87171'}>
+            <title>{`${new Date(p.startedAt).toLocaleDateString()} · ${p.caseTitle}: ${p.score}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const AttemptTable: React.FC<{ attempts: ScoredAttempt[] }> = ({ attempts }) => (
+  <table className="w-full text-sm text-left">
+    <thead className="text-gray-400">
+      <tr><th className="py-1">Date</th><th>Overall</th><th>Result</th><th>Status</th></tr>
+    </thead>
+    <tbody>
+      {[...attempts].reverse().map(attempt => (
+        <tr key={attempt.sessionId} className="border-t border-gray-800 text-gray-200">
+          <td className="py-1">{new Date(attempt.startedAt).toLocaleString()}</td>
+          <td>{attempt.score.overallScore} / {attempt.rubric.scale.max}</td>
+          <td className={attempt.score.passed ? 'text-green-400' : 'text-red-400'}>{attempt.score.passed ? 'Pass' : 'Fail'}</td>
+          <td className="text-gray-400">{attempt.isVerified ? 'Verified' : 'Provisional'}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onBack }) => {
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  // Devices may be shared, so nothing is shown until the candidate enters their own number, and the numbers of
+  // other candidates on this device are never listed.
+  const [candidateIdInput, setCandidateIdInput] = useState('');
+  const [candidateId, setCandidateId] = useState('');
+
+  useEffect(() => {
+    listSessions().then(setSessions);
+  }, []);
+
+  const handleShowProgress = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCandidateId(candidateIdInput.trim());
+  };
+
+  const handleSwitchCandidate = () => {
+    setCandidateId('');
+    setCandidateIdInput('');
+  };
+
+  const attempts = useMemo(
+    () => toScoredAttempts((sessions ?? []).filter(s => s.candidateIdentity.candidateId === candidateId), caseLibrary),
+    [sessions, candidateId]
+  );
+  const attemptsByCase = useMemo(() => groupAttemptsByCase(attempts), [attempts]);
+  const rubrics = useMemo(() => [...new Map(attempts.map(a => [a.rubric.id, a.rubric])).values()], [attempts]);
+  const weaknesses = useMemo(() => findRecurringWeaknesses(attempts), [attempts]);
+  const missedItems = useMemo(() => getMostMissedChecklistItems(attempts).slice(0, 10), [attempts]);
+
+  return (
+    <div className="flex justify-center p-4 min-h-[calc(100vh-68px)]">
+      <div className="w-full max-w-5xl p-8 space-y-8 bg-black rounded-2xl shadow-2xl border border-gray-800">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h2 className="text-3xl font-extrabold text-white">My Progress</h2>
+            <p className="text-gray-400">Practice attempts stored on this device.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {candidateId && (
+              <>
+                <p className="text-sm text-gray-400">Candidate {candidateId}</p>
+                <button onClick={handleSwitchCandidate} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                  Switch Candidate
+                </button>
+              </>
+            )}
+            <button onClick={onBack} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+              Back to Exam Setup
+            </button>
+          </div>
+        </div>
+
+        {!candidateId ? (
+          <form onSubmit={handleShowProgress} className="max-w-md mx-auto space-y-4">
+            <div className="flex items-center gap-3">
+              <label htmlFor="progress-candidate-id" className="text-sm font-semibold text-gray-300 whitespace-nowrap">Candidate Number</label>
+              <input
+                id="progress-candidate-id"
+                type="text"
+                value={candidateIdInput}
+                onChange={e => setCandidateIdInput(e.target.value)}
+                className="flex-grow px-3 py-2 bg-gray-900 text-white rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-violet-500"
+              />
+            </div>
+            <button type="submit" disabled={!candidateIdInput.trim()} className="w-full px-4 py-2 font-semibold text-white bg-violet-700 rounded-md transition-all hover:enabled:bg-violet-800 disabled:bg-gray-600 disabled:cursor-not-allowed">
+              Show My Progress
+            </button>
+          </form>
+        ) : sessions === null ? (
+          <p className="text-center text-gray-400 animate-pulse">Loading past attempts...</p>
+        ) : attempts.length === 0 ? (
+          <p className="text-center text-gray-400">No scored attempts yet. Complete a station to start tracking your progress.</p>
+        ) : (
+          <>
+            <section className="space-y-4">
+              <h3 className="text-xl font-bold text-white">Attempts by Station</h3>
+              {[...attemptsByCase.entries()].map(([caseId, caseAttempts]) => (
+                <div key={caseId} className="p-4 rounded-lg border border-gray-700 bg-gray-900/40">
+                  <p className="font-semibold text-white mb-2">{caseAttempts[0].caseTitle} <span className="text-sm font-normal text-gray-400">· {caseAttempts.length} attempt{caseAttempts.length === 1 ? '' : 's'}</span></p>
+                  <AttemptTable attempts={caseAttempts} />
+                </div>
+              ))}
+            </section>
+
+            {rubrics.map(rubric => (
+              <section key={rubric.id} className="space-y-3">
+                <h3 className="text-xl font-bold text-white">{rubric.name} <span className="text-sm font-normal text-gray-400">· dashed line is the pass mark</span></h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {buildCategoryTrends(attempts, rubric).filter(trend => trend.points.length > 0).map(trend => (
+                    <TrendChart key={trend.categoryId} trend={trend} rubric={rubric} />
+                  ))}
+                </div>
+              </section>
+            ))}
+
+            <section className="space-y-3">
+              <h3 className="text-xl font-bold text-white">Recurring Weaknesses</h3>
+              {weaknesses.length === 0 ? (
+                <p className="text-green-400">No category has scored below the pass mark yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {weaknesses.map(weakness => (
+                    <li key={`${weakness.rubricId}:${weakness.categoryId}`} className="p-4 rounded-lg border border-amber-500/40 bg-amber-900/10">
+                      <p className="font-semibold text-white">
+                        {weakness.name}
+                        <span className="ml-2 text-sm font-normal text-amber-300">below pass mark in {weakness.weakAttempts} of {weakness.attempts} attempts</span>
+                      </p>
+                      {weakness.recurringTerms.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {weakness.recurringTerms.map(term => (
+                            <span key={term} className="px-2 py-0.5 rounded-full text-xs bg-gray-800 text-gray-300 border border-gray-700">{term}</span>
+                          ))}
+                        </div>
+                      )}
+                      <p className="mt-2 text-sm text-gray-400 italic">"{weakness.latestJustification}"</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {missedItems.length > 0 && (
+              <section className="space-y-3">
+                <h3 className="text-xl font-bold text-white">Most Often Missed Checklist Items</h3>
+                <ul className="space-y-2">
+                  {missedItems.map(item => (
+                    <li key={`${item.caseId}:${item.itemId}`} className="text-sm">
+                      <div className="flex justify-between text-gray-200">
+                        <span>{item.label} <span className="text-gray-500">· {item.caseTitle}</span></span>
+                        <span className="text-gray-400">missed {item.missed} of {item.attempts}</span>
+                      </div>
+                      <div className="h-2 mt-1 bg-gray-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-red-500/70" style={{ width: `${(item.missed / item.attempts) * 100}%` }} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
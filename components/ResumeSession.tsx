@@ -0,0 +1,76 @@
+import React from 'react';
+import { AIProviderId, ClinicalCase, StoredSession } from '../types';
+import { formatTimestamp } from '../services/transcriptTiming';
+
+interface ResumeSessionProps {
+  session: StoredSession;
+  // Null when the session's case is no longer in the case library.
+  clinicalCase: ClinicalCase | null;
+  // The provider this page is running on; null when none is configured.
+  aiProviderId: AIProviderId | null;
+  onResume: () => void;
+  onSubmit: () => void;
+  onDiscard: () => void;
+}
+
+const phaseDescriptions: Record<StoredSession['phase'], string> = {
+  'initializing': 'before the station started',
+  'ready': 'before the station started',
+  'in-progress': 'during the patient encounter',
+  'feedback': 'while examiner feedback was being generated',
+  'q&a': 'during examiner Q&A',
+  'ended': 'after the exam ended',
+};
+
+const ResumeSession: React.FC<ResumeSessionProps> = ({ session, clinicalCase, aiProviderId, onResume, onSubmit, onDiscard }) => {
+  const studentTurns = session.transcripts.filter(t => t.role === 'Student').length;
+  // Finishing on another provider would store its scores under the provider the session started with.
+  const isProviderMismatch = session.aiProviderId !== aiProviderId;
+  const canResume = clinicalCase !== null && !isProviderMismatch;
+  // Submitting only makes sense while the encounter itself is unfinished.
+  const canSubmit = canResume && session.transcripts.length > 0 && ['initializing', 'ready', 'in-progress'].includes(session.phase);
+
+  return (
+    <div className="flex items-center justify-center h-[calc(100vh-68px)] p-4">
+      <div className="w-full max-w-xl p-8 space-y-6 bg-black rounded-2xl shadow-2xl border border-amber-500/50">
+        <div>
+          <h2 className="text-3xl font-extrabold text-center text-white">Interrupted Exam Found</h2>
+          <p className="mt-2 text-center text-gray-400">
+            An exam started at {new Date(session.startedAt).toLocaleString()} was interrupted {phaseDescriptions[session.phase]}.
+          </p>
+        </div>
+
+        <div className="p-4 rounded-lg border border-gray-700 bg-gray-900/40 text-sm text-gray-300 space-y-1">
+          <p><span className="font-semibold text-white">Station:</span> {clinicalCase ? clinicalCase.title : `Unknown case "${session.caseId}"`}</p>
+          <p><span className="font-semibold text-white">Progress:</span> {studentTurns} student turn{studentTurns === 1 ? '' : 's'} · {formatTimestamp(session.stationElapsedMs)} elapsed</p>
+          <p><span className="font-semibold text-white">Proctoring incidents:</span> {session.incidents.length}</p>
+        </div>
+
+        {!clinicalCase && (
+          <p className="text-center text-red-400 text-sm">This station is no longer available, so the exam cannot be resumed.</p>
+        )}
+        {isProviderMismatch && (
+          <p className="text-center text-red-400 text-sm">
+            This exam was started on the {session.aiProviderId} AI provider, but this page is {aiProviderId ? `running ${aiProviderId}` : 'not connected to one'}, so the exam cannot be resumed here.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          <button onClick={onResume} disabled={!canResume} className="w-full px-4 py-3 text-lg font-semibold text-white bg-violet-700 rounded-md transition-all hover:enabled:bg-violet-800 disabled:bg-gray-600 disabled:cursor-not-allowed">
+            Resume Exam
+          </button>
+          {canSubmit && (
+            <button onClick={onSubmit} className="w-full px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+              End Station &amp; Submit for Marking
+            </button>
+          )}
+          <button onClick={onDiscard} className="w-full px-4 py-2 text-sm font-semibold text-gray-400 rounded-md hover:text-white transition-all">
+            Discard and Start a New Exam
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeSession;
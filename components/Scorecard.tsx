@@ -0,0 +1,312 @@
+import React from 'react';
+import { ChecklistItemResult, Rubric, RubricCategory, ScoreAuditTrail, ScoreCategory, ScoreData } from '../types';
+import { getLevelDescriptor, getScaleValues } from '../services/scoring';
+import { buildScoreComparison, getCurrentScore, isScorecardLocked } from '../services/scoreAudit';
+
+const Star: React.FC<{ filled: boolean; interactive?: boolean; onClick?: () => void }> = ({ filled, interactive, onClick }) => (
+    <svg 
+        className={`w-5 h-5 ${filled ? 'text-yellow-400' : 'text-gray-600'} ${interactive ? 'cursor-pointer hover:scale-125 transition-transform' : ''}`} 
+        xmlns="http://www.w3.org/2000/svg" 
+        viewBox="0 0 20 20" 
+        fill="currentColor"
+        onClick={onClick}
+    >
+        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+    </svg>
+);
+
+// Transcript turns are shown 1-based to match how examiners count them.
+const formatTurnList = (turns: number[]): string =>
+    `(${turns.length === 1 ? 'turn' : 'turns'} ${turns.map(turn => turn + 1).join(', ')})`;
+
+const ScoreCategoryDisplay: React.FC<{ 
+    rubric: Rubric;
+    category: RubricCategory;
+    data: ScoreCategory;
+    isEditing?: boolean;
+    onScoreChange?: (categoryId: string, score: number) => void;
+    onShowEvidence?: (turns: number[]) => void;
+}> = ({ rubric, category, data, isEditing, onScoreChange, onShowEvidence }) => {
+    const level = getLevelDescriptor(rubric, category, data.score);
+
+    return (
+        <div>
+            <h4 className="font-semibold text-gray-200">{category.name}</h4>
+            <div className="flex items-center gap-2 my-1">
+                {/* A score of zero is shown as no filled stars rather than a star of its own. */}
+                {getScaleValues(rubric).filter(value => value > 0).map(value => (
+                    <span key={value} title={getLevelDescriptor(rubric, category, value)?.label}>
+                        <Star 
+                            filled={value <= data.score} 
+                            interactive={isEditing}
+                            onClick={isEditing ? () => onScoreChange?.(category.id, value) : undefined}
+                        />
+                    </span>
+                ))}
+                <span className="font-bold text-lg text-white">{data.score}/{rubric.scale.max}</span>
+            </div>
+            {level && <p className="text-xs font-semibold text-gray-300">{level.label}: {level.descriptor}</p>}
+            {data.evidence.length > 0 && onShowEvidence ? (
+                <button onClick={() => onShowEvidence(data.evidence)} className="text-left text-sm italic text-gray-400 hover:text-gray-200 transition-colors" title="Show supporting turns in the transcript">
+                    "{data.justification}"
+                    <span className="not-italic ml-1 text-xs text-cyan-400 underline">{formatTurnList(data.evidence)}</span>
+                </button>
+            ) : (
+                <p className="text-sm italic text-gray-400">"{data.justification}"</p>
+            )}
+            {isEditing && rubric.scale.min === 0 && (
+                <button onClick={() => onScoreChange?.(category.id, 0)} className="mt-1 text-xs text-gray-400 underline hover:text-gray-200">
+                    Set to 0
+                </button>
+            )}
+        </div>
+    );
+};
+
+const ChecklistDisplay: React.FC<{ items: ChecklistItemResult[]; onShowEvidence?: (turns: number[]) => void }> = ({ items, onShowEvidence }) => {
+    const coveredCount = items.filter(item => item.covered).length;
+
+    return (
+        <div>
+            <div className="flex justify-between items-baseline">
+                <h4 className="font-semibold text-gray-200">History Checklist</h4>
+                <span className="font-bold text-white">{coveredCount}/{items.length} covered</span>
+            </div>
+            <ul className="mt-2 grid sm:grid-cols-2 gap-x-6 gap-y-1">
+                {items.map(item => (
+                    <li key={item.itemId} className="flex items-start gap-2 text-sm">
+                        {item.covered ? (
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0 text-green-400" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+                        ) : (
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0 text-red-400" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                        )}
+                        <span className={item.covered ? 'text-gray-200' : 'text-gray-400'}>
+                            {item.label}
+                            {item.evidence.length > 0 && onShowEvidence && (
+                                <button onClick={() => onShowEvidence(item.evidence)} className="ml-1 text-xs text-cyan-400 underline hover:text-cyan-300">
+                                    {formatTurnList(item.evidence)}
+                                </button>
+                            )}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+// Score editing and sign-off, only ever passed in by the examiner's marking view.
+export interface ScorecardMarking {
+    editedScoreData: ScoreData | null;
+    isEditing: boolean;
+    examinerId: string;
+    editReason: string;
+    onExaminerIdChange: (examinerId: string) => void;
+    onEditReasonChange: (reason: string) => void;
+    onVerify: () => void;
+    onEdit: () => void;
+    onCancel: () => void;
+    onSave: () => void;
+    onScoreChange: (categoryId: string, score: number) => void;
+}
+
+interface ScorecardProps {
+    rubric: Rubric;
+    scoreAudit: ScoreAuditTrail;
+    // Patient turns the student talked over.
+    interruptions: number;
+    // Why the checklist is missing, when it is known.
+    checklistError?: string | null;
+    onShowEvidence?: (turns: number[]) => void;
+    // Without it the scorecard is read-only, as the candidate sees it.
+    marking?: ScorecardMarking;
+}
+
+const Scorecard: React.FC<ScorecardProps> = ({ rubric, scoreAudit, interruptions, checklistError, onShowEvidence, marking }) => {
+    const scoreData = getCurrentScore(scoreAudit);
+    const isVerified = isScorecardLocked(scoreAudit);
+    const isEditing = marking?.isEditing ?? false;
+    const displayData = isEditing && marking?.editedScoreData ? marking.editedScoreData : scoreData;
+    const hasExaminerId = (marking?.examinerId.trim().length ?? 0) > 0;
+
+    return (
+        <div className="bg-gray-900/70 rounded-lg p-6 border border-gray-700 backdrop-blur-sm animate-fade-in">
+            <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-500">
+                        Performance Scorecard
+                    </h3>
+                    <p className="text-sm text-gray-400">AI-generated assessment based on performance. Marked against: {rubric.name}.</p>
+                </div>
+                {isVerified ? (
+                     <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-green-900/50 border border-green-500/50 text-green-300 font-semibold text-sm">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                         Verified by {scoreAudit.signOff?.examinerId}
+                     </div>
+                ) : (
+                    <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-amber-900/50 border border-amber-500/50 text-amber-300 font-semibold text-sm">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM10 13a1 1 0 110-2 1 1 0 010 2zm-1-8a1 1 0 011-1h.008a1 1 0 011 1v3.008a1 1 0 01-1 1H9a1 1 0 01-1-1V5z" clipRule="evenodd" /></svg>
+                        Pending Human Verification
+                     </div>
+                )}
+            </div>
+            <div className="mt-4 grid md:grid-cols-3 gap-6 border-t border-gray-700 pt-4">
+                {rubric.categories.map(category => displayData.categories[category.id] && (
+                    <ScoreCategoryDisplay
+                        key={category.id}
+                        rubric={rubric}
+                        category={category}
+                        data={displayData.categories[category.id]}
+                        isEditing={isEditing}
+                        onScoreChange={marking?.onScoreChange}
+                        onShowEvidence={onShowEvidence}
+                    />
+                ))}
+            </div>
+            {displayData.checklist && displayData.checklist.length > 0 && (
+                <div className="mt-4 border-t border-gray-700 pt-4">
+                    <ChecklistDisplay items={displayData.checklist} onShowEvidence={onShowEvidence} />
+                </div>
+            )}
+            {/* A scorecard without a checklist had its rubric scored but its checklist evaluation failed. */}
+            {!displayData.checklist && (
+                <div className="mt-4 border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-200">History Checklist Unavailable</h4>
+                    <p className="text-sm text-amber-300">
+                        {checklistError ?? 'The history checklist could not be evaluated.'} The rubric scores above are not affected.
+                    </p>
+                </div>
+            )}
+            <div className="mt-6 border-t border-gray-700 pt-4 flex flex-wrap gap-4 justify-between items-center">
+                 <div>
+                    <p className="text-gray-400 text-sm">Overall Score</p>
+                    <p className="text-3xl font-bold text-white">{displayData.overallScore.toFixed(1)} / {rubric.scale.max.toFixed(1)}</p>
+                    <p className={`text-sm font-semibold ${displayData.passed ? 'text-green-400' : 'text-red-400'}`}>
+                        {displayData.passed ? 'Pass' : 'Fail'} (pass mark {rubric.passThreshold.toFixed(1)})
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">Interrupted the patient {interruptions} time{interruptions === 1 ? '' : 's'}</p>
+                </div>
+                {marking && (
+                    <div className="flex flex-wrap items-center gap-3">
+                        {!isVerified && (
+                            <input
+                                type="text"
+                                value={marking.examinerId}
+                                onChange={e => marking.onExaminerIdChange(e.target.value)}
+                                aria-label="Examiner ID"
+                                placeholder="Examiner ID"
+                                className="px-3 py-2 w-36 bg-gray-800 text-white rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        )}
+                        {!isVerified && !isEditing && (
+                            <>
+                                <button onClick={marking.onEdit} className="px-4 py-2 font-semibold text-white bg-blue-600 rounded-md transition-all hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-900">
+                                    Edit Scores
+                                </button>
+                                <button onClick={marking.onVerify} disabled={!hasExaminerId} title="Signing off locks the scorecard" className="px-4 py-2 font-semibold text-gray-900 bg-green-500 rounded-md transition-all hover:enabled:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900">
+                                    Sign Off Score
+                                </button>
+                            </>
+                        )}
+                         {isEditing && (
+                            <>
+                                <button onClick={marking.onCancel} className="px-4 py-2 font-semibold text-white bg-gray-600 rounded-md transition-all hover:bg-gray-700">
+                                    Cancel
+                                </button>
+                                <button onClick={marking.onSave} disabled={!hasExaminerId || !marking.editReason.trim()} className="px-4 py-2 font-semibold text-gray-900 bg-green-500 rounded-md transition-all hover:enabled:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                                    Save Changes
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+            {marking?.isEditing && (
+                <div className="mt-4">
+                    <label htmlFor="edit-reason" className="block text-sm font-semibold text-gray-300 mb-1">Reason for change (required)</label>
+                    <textarea
+                        id="edit-reason"
+                        value={marking.editReason}
+                        onChange={e => marking.onEditReasonChange(e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </div>
+            )}
+            {(scoreAudit.edits.length > 0 || isVerified) && (
+                <div className="mt-6 border-t border-gray-700 pt-4">
+                    <AuditTrailDisplay rubric={rubric} scoreAudit={scoreAudit} />
+                </div>
+            )}
+            <style>{`
+                @keyframes fade-in {
+                    from { opacity: 0; transform: translateY(10px); }
+                    to { opacity: 1; transform: translateY(0); }
+                }
+                .animate-fade-in {
+                    animation: fade-in 0.5s ease-out forwards;
+                }
+            `}</style>
+        </div>
+    );
+};
+
+
+const AuditTrailDisplay: React.FC<{ rubric: Rubric; scoreAudit: ScoreAuditTrail }> = ({ rubric, scoreAudit }) => {
+    const comparison = buildScoreComparison(rubric, scoreAudit);
+    const formatScore = (score: number | null) => score === null ? '—' : Number.isInteger(score) ? String(score) : score.toFixed(1);
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h4 className="font-semibold text-gray-200 mb-2">AI vs Human-Verified Score</h4>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-400">
+                            <th className="py-1 font-medium">Category</th>
+                            <th className="py-1 font-medium">AI Score</th>
+                            <th className="py-1 font-medium">Verified Score</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {comparison.map(row => (
+                            <tr key={row.categoryId} className={`border-t border-gray-800 ${row.humanScore !== null && row.humanScore !== row.aiScore ? 'text-amber-300' : 'text-gray-200'}`}>
+                                <td className="py-1">{row.name}</td>
+                                <td className="py-1">{formatScore(row.aiScore)}</td>
+                                <td className="py-1">{formatScore(row.humanScore)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {scoreAudit.edits.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-gray-200 mb-2">Edit History</h4>
+                    <ul className="space-y-2 text-sm">
+                        {scoreAudit.edits.map((edit, i) => {
+                            const changes = rubric.categories
+                                .filter(category => edit.before.categories[category.id]?.score !== edit.after.categories[category.id]?.score)
+                                .map(category => `${category.name}: ${edit.before.categories[category.id]?.score} → ${edit.after.categories[category.id]?.score}`);
+                            return (
+                                <li key={i} className="p-2 rounded bg-gray-800/60 border border-gray-700">
+                                    <p className="text-gray-300">
+                                        <span className="font-semibold">{edit.examinerId}</span> · {new Date(edit.timestamp).toLocaleString()}
+                                    </p>
+                                    <p className="text-gray-400">{changes.length > 0 ? changes.join('; ') : 'No score changes.'}</p>
+                                    <p className="italic text-gray-400">Reason: {edit.reason}</p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+            {scoreAudit.signOff && (
+                <p className="text-sm text-green-300">
+                    Signed off by <span className="font-semibold">{scoreAudit.signOff.examinerId}</span> on {new Date(scoreAudit.signOff.timestamp).toLocaleString()}. This scorecard is locked.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default Scorecard;
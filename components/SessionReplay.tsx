@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionRecording, TranscriptEntry } from '../types';
+import { formatTimestamp } from '../services/transcriptTiming';
+
+interface SessionReplayProps {
+  recording: SessionRecording;
+  transcripts: TranscriptEntry[];
+  onClose: () => void;
+}
+
+const roleStyles = {
+  Student: 'text-blue-300',
+  SP: 'text-teal-300',
+  Examiner: 'text-purple-300',
+};
+
+// Index of the turn being spoken at the given playback position, or -1 before the first turn.
+const findActiveTurn = (transcripts: TranscriptEntry[], positionMs: number): number => {
+  let active = -1;
+  transcripts.forEach((entry, index) => {
+    if (entry.startMs <= positionMs) active = index;
+  });
+  return active;
+};
+
+const SessionReplay: React.FC<SessionReplayProps> = ({ recording, transcripts, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const turnRefs = useRef(new Map<number, HTMLLIElement>());
+  const [positionMs, setPositionMs] = useState(0);
+
+  const activeTurn = findActiveTurn(transcripts, positionMs + recording.stationOffsetMs);
+
+  useEffect(() => {
+    turnRefs.current.get(activeTurn)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeTurn]);
+
+  const handleSeekToTurn = (index: number) => {
+    const entry = transcripts[index];
+    if (!videoRef.current || !entry) return;
+    const offset = Math.max(0, entry.startMs - recording.stationOffsetMs);
+    videoRef.current.currentTime = offset / 1000;
+    setPositionMs(offset);
+    videoRef.current.play().catch(() => {});
+  };
+
+  return (
+    <div className="w-full max-w-6xl p-6 space-y-4 bg-black rounded-2xl shadow-2xl border border-gray-800">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Session Replay</h2>
+          <p className="text-sm text-gray-400">
+            Recorded {new Date(recording.startedAt).toLocaleString()} · {formatTimestamp(recording.durationMs)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <a href={recording.url} download={`osce-session-${recording.startedAt}.webm`} className="px-3 py-1 text-sm font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+            Download
+          </a>
+          <button onClick={onClose} className="px-3 py-1 text-sm font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+            Close
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-col lg:flex-row gap-4">
+        <video
+          ref={videoRef}
+          src={recording.url}
+          controls
+          onTimeUpdate={e => setPositionMs(e.currentTarget.currentTime * 1000)}
+          className="w-full lg:w-2/3 aspect-video bg-black rounded-lg border border-gray-700 transform -scale-x-100"
+        />
+        <ul className="w-full lg:w-1/3 max-h-[60vh] overflow-y-auto space-y-2 pr-1">
+          {transcripts.map((entry, index) => {
+            const isActive = index === activeTurn;
+            return (
+              <li
+                key={index}
+                ref={el => { if (el) turnRefs.current.set(index, el); else turnRefs.current.delete(index); }}
+                onClick={() => handleSeekToTurn(index)}
+                className={`p-2 rounded-md border text-sm transition-all cursor-pointer hover:bg-gray-800 ${isActive ? 'border-yellow-400 bg-yellow-900/20' : 'border-gray-800 bg-gray-900/40'}`}
+              >
+                <p className={`font-bold ${roleStyles[entry.role]}`}>
+                  {entry.role}
+                  <span className="ml-2 font-normal text-xs text-gray-400">{formatTimestamp(entry.startMs)}</span>
+                  {!entry.isFinal && <span className="ml-2 font-normal text-xs text-amber-400">{entry.interrupted ? 'interrupted' : 'cut off'}</span>}
+                </p>
+                <p className="text-gray-200">{entry.text}</p>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
@@ -1,73 +1,105 @@
-import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
-import { LiveServerMessage, Modality } from '@google/genai';
-import { streamDetailedExaminerFeedback, textToSpeech, analyzeStudentFrame, getExaminerQAPrompt, ai } from '../services/geminiService';
-import { TranscriptEntry, ScoreData } from '../types';
-import { decode, decodeAudioData, createBlob } from '../services/audioUtils';
-
-
-const patientScript = `
-You are a Standardized Patient in a clinical exam simulation named Alex. A medical student is interacting with you. Your goal is to accurately portray the patient so the student can practice their history-taking skills.
-
-You have already greeted the student with "Hello, doctor."
-
-**Patient Profile:**
-- **Name:** Alex
-- **Age:** 45
-- **Occupation:** Office worker
-- **Chief Complaint:** Persistent headaches.
-
-**History of Present Illness (HPI):**
-- The headaches started two weeks ago.
-- The pain is a dull, throbbing sensation located behind the eyes.
-- It gets worse in the afternoon, especially after looking at a computer screen for a long time.
-- Over-the-counter pain relievers (like ibuprofen) provide only minimal relief.
-
-**Your Behavior:**
-- Your mood is slightly anxious because you're worried this might be serious.
-- When the student responds to your greeting (e.g., "Hello Alex, what brings you in today?"), your next response should be to state your chief complaint. For example: "I've been having these persistent headaches."
-- After stating your complaint, **crucially, do not volunteer information unless the student asks you directly.** 
-- For example, if they ask 'when did they start?' or 'can you describe the pain?', only then provide more details.
-- Keep your answers concise and conversational, based on the script.
-- When the student concludes the interview (e.g., by saying 'Thank you, we're done for today'), respond politely (e.g., 'Thank you, doctor.') and do not offer further information.
-`;
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
+import { ExamAIProvider, LiveSession } from '../services/aiProvider';
+import { TranscriptEntry, ScoreAuditTrail, ClinicalCase, ProctoringPolicy, ProctoringHealth, ViolationCategory, ViolationEvidence, CandidateIdentity, SessionRecording, ExamPhase, StoredSession } from '../types';
+import { decode, decodeAudioData, encode, encodeWav } from '../services/audioUtils';
+import { AudioProctor, createAudioProctor } from '../services/audioProctor';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from '../services/audioCapture';
+import { createExamStateMachine } from '../services/examStateMachine';
+import { createVoiceActivityDetector } from '../services/voiceActivity';
+import { createThumbnail } from '../services/imageUtils';
+import { createSessionRecorder, SessionRecorder } from '../services/sessionRecorder';
+import SessionReplay from './SessionReplay';
+import MicLevelMeter from './MicLevelMeter';
+import Scorecard from './Scorecard';
+import { countInterruptions, formatTimestamp } from '../services/transcriptTiming';
+import { getSession, updateSession } from '../services/sessionStore';
+import { buildCandidateReportHtml, buildSessionBundle, buildSessionCsv, downloadFile, getExportFilename, printReport } from '../services/sessionExport';
+import { acknowledgeOutage, closeOpenInterval, createProctoringHealth, getFailureRate, recordProctoringCheck } from '../services/proctoringHealth';
+import { getRubricForCase } from '../services/rubricLibrary';
+import { createAuditTrail } from '../services/scoreAudit';
+
 
 interface CallProps {
-  onViolation: (reason: string) => void;
+  clinicalCase: ClinicalCase;
+  candidateIdentity: CandidateIdentity;
+  sessionId: string;
+  // Set when picking up a session that was interrupted by a refresh or crash.
+  resumeSession: StoredSession | null;
+  policy: ProctoringPolicy;
+  aiProvider: ExamAIProvider;
+  onViolation: (category: ViolationCategory, reason: string, evidence: ViolationEvidence) => void;
+  onProctoringHealthChange: (health: ProctoringHealth) => void;
+  onPhaseChange: (phase: ExamPhase) => void;
+  onReviewIncidents: () => void;
   isBlocked: boolean;
 }
 
-const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
+const Call: React.FC<CallProps> = ({ clinicalCase, candidateIdentity, sessionId, resumeSession, policy, aiProvider, onViolation, onProctoringHealthChange, onPhaseChange, onReviewIncidents, isBlocked }) => {
+    const rubric = useMemo(() => getRubricForCase(clinicalCase), [clinicalCase]);
     const [status, setStatus] = useState('Initializing...');
-    const [examState, setExamState] = useState<'initializing' | 'ready' | 'in-progress' | 'feedback' | 'q&a' | 'ended'>('initializing');
-    const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
+    // The machine owns the phase; examState mirrors it for rendering, and callbacks read exam.getPhase() so they never see a stale phase.
+    const [exam] = useState(createExamStateMachine);
+    const [examState, setExamState] = useState<ExamPhase>(exam.getPhase);
+    // Feedback that was cut short is regenerated from scratch, so its partial examiner entry is dropped.
+    const [transcripts, setTranscripts] = useState<TranscriptEntry[]>(() =>
+        resumeSession?.phase === 'feedback' ? resumeSession.transcripts.filter(t => t.role !== 'Examiner') : resumeSession?.transcripts ?? []
+    );
+    const [sessionRecording, setSessionRecording] = useState<SessionRecording | null>(null);
+    const [isReplayOpen, setIsReplayOpen] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
     const [currentStudentTranscript, setCurrentStudentTranscript] = useState('');
     const [currentSpTranscript, setCurrentSpTranscript] = useState('');
     const [currentExaminerTranscript, setCurrentExaminerTranscript] = useState('');
-    const [examinerFeedback, setExaminerFeedback] = useState('No feedback at this time.');
-    const [scoreData, setScoreData] = useState<ScoreData | null>(null);
-    const [isScoreVerified, setIsScoreVerified] = useState(false);
-    const [isEditingScores, setIsEditingScores] = useState(false);
-    const [editedScoreData, setEditedScoreData] = useState<ScoreData | null>(null);
+    const [examinerFeedback, setExaminerFeedback] = useState(resumeSession?.examinerFeedback || 'No feedback at this time.');
+    const [scoreAudit, setScoreAudit] = useState<ScoreAuditTrail | null>(resumeSession?.scoreAudit ?? null);
+    const [scoringError, setScoringError] = useState<string | null>(null);
+    const [checklistError, setChecklistError] = useState<string | null>(null);
+    const [isRetryingScores, setIsRetryingScores] = useState(false);
     const [isExaminerSpeaking, setIsExaminerSpeaking] = useState(false);
     const [unclearAudioWarning, setUnclearAudioWarning] = useState(false);
     const [isPatientSpeaking, setIsPatientSpeaking] = useState(false);
+    const [isStudentSpeaking, setIsStudentSpeaking] = useState(false);
+    // Created once so the level meter can subscribe to it before the microphone starts.
+    const [voiceActivity] = useState(() => createVoiceActivityDetector(CAPTURE_SAMPLE_RATE));
     const [silenceWarningVisible, setSilenceWarningVisible] = useState(false);
+    const [highlightedTurns, setHighlightedTurns] = useState<number[]>([]);
+    const [proctoringHealth, setProctoringHealth] = useState<ProctoringHealth>(() => resumeSession?.proctoringHealth ?? createProctoringHealth());
+    const [invigilatorId, setInvigilatorId] = useState('');
+    const [evidenceExportInvigilatorId, setEvidenceExportInvigilatorId] = useState('');
 
     const localVideoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const transcriptEndRef = useRef<HTMLDivElement>(null);
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    const transcriptBubbleRefs = useRef(new Map<number, HTMLDivElement>());
+    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
     const reconnectionAttemptRef = useRef(0);
+    // The violation seen on consecutive frames, counted until it meets the policy's confirmation threshold.
+    const pendingViolationRef = useRef<{ category: ViolationCategory; count: number } | null>(null);
+    const lastIdentityCheckRef = useRef(0);
+    const identityMismatchCountRef = useRef(0);
 
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const nextStartTimeRef = useRef(0);
     const audioSourcesRef = useRef(new Set<AudioBufferSourceNode>());
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    // Bumped on every interruption, so patient audio still being decoded when the student cut in is dropped.
+    const playbackGenerationRef = useRef(0);
+    const audioCaptureRef = useRef<AudioCapture | null>(null);
     const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
     const silenceTimerRef = useRef<number | null>(null);
     const warningTimerRef = useRef<number | null>(null);
+    const audioProctorRef = useRef<AudioProctor | null>(null);
+    // Set from the capture callback as soon as the detector changes its mind, ahead of the next render.
+    const isStudentSpeakingRef = useRef(false);
+    const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+    // Transcript timings are relative to when the student pressed Ready.
+    const stationStartRef = useRef<number | null>(null);
+    // When each speaker's in-progress turn started; the turn is only added to the transcript once it completes.
+    const turnStartRef = useRef<Partial<Record<TranscriptEntry['role'], number>>>({});
+    const isAudioCheckRunningRef = useRef(false);
+    const isStartingStationRef = useRef(false);
+    const lastAudioCheckRef = useRef(0);
     
     // Create refs to hold the latest state to avoid stale closures in callbacks
     const transcriptsRef = useRef(transcripts);
@@ -75,22 +107,136 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
         transcriptsRef.current = transcripts;
     }, [transcripts]);
 
-    const examStateRef = useRef(examState);
+    const currentStudentTranscriptRef = useRef(currentStudentTranscript);
+    const currentSpTranscriptRef = useRef(currentSpTranscript);
+    useEffect(() => {
+        currentStudentTranscriptRef.current = currentStudentTranscript;
+        currentSpTranscriptRef.current = currentSpTranscript;
+    }, [currentStudentTranscript, currentSpTranscript]);
+
+    useEffect(() => exam.subscribe(setExamState), [exam]);
+
+    useEffect(() => {
+        onPhaseChange(examState);
+    }, [examState, onPhaseChange]);
+
+    // Persist as the exam runs so a refresh or crash can resume from the last completed turn.
+    useEffect(() => {
+        // Every session is stored as 'initializing'; a resumed one must keep its interrupted phase until it moves on.
+        if (examState === 'initializing') return;
+        const at = new Date().toISOString();
+        updateSession(sessionId, session => session.phase === examState ? session : {
+            ...session,
+            phase: examState,
+            phaseHistory: [...session.phaseHistory, { phase: examState, at }],
+            status: examState === 'ended' ? 'completed' : session.status,
+        });
+    }, [sessionId, examState]);
+
+    useEffect(() => {
+        const stationElapsedMs = stationStartRef.current === null ? null : Date.now() - stationStartRef.current;
+        updateSession(sessionId, session => ({
+            ...session,
+            transcripts,
+            examinerFeedback,
+            scoreAudit,
+            stationElapsedMs: stationElapsedMs ?? session.stationElapsedMs,
+        }));
+    }, [sessionId, transcripts, examinerFeedback, scoreAudit]);
+
+    const isPatientSpeakingRef = useRef(isPatientSpeaking);
+    useEffect(() => {
+        isPatientSpeakingRef.current = isPatientSpeaking;
+    }, [isPatientSpeaking]);
+
+    // While proctoring is down, the policy's fallback may hold the exam: no mic audio is sent and the inactivity timers stop.
+    const openOutage = proctoringHealth.unproctoredIntervals.find(interval => interval.end === null);
+    const isProctoringHold = examState === 'in-progress' && proctoringHealth.isDegraded && (
+        policy.outage.fallback === 'pause' ||
+        (policy.outage.fallback === 'require-invigilator' && !openOutage?.acknowledgedBy)
+    );
+    const isProctoringHoldRef = useRef(isProctoringHold);
+    useEffect(() => {
+        isProctoringHoldRef.current = isProctoringHold;
+    }, [isProctoringHold]);
+
+    useEffect(() => {
+        onProctoringHealthChange(proctoringHealth);
+    }, [proctoringHealth, onProctoringHealthChange]);
+
+    useEffect(() => {
+        if (examState === 'feedback' || examState === 'ended') {
+            setProctoringHealth(prev => closeOpenInterval(prev, new Date().toISOString()));
+        }
+    }, [examState]);
+
     useEffect(() => {
-        examStateRef.current = examState;
+        if (examState !== 'ended') return;
+        sessionPromiseRef.current?.then(session => session.close());
+        if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+        if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
+        audioCaptureRef.current?.stop();
+        sessionRecorderRef.current?.stop().then(setSessionRecording);
     }, [examState]);
 
+    useEffect(() => {
+        return () => {
+            if (sessionRecording) URL.revokeObjectURL(sessionRecording.url);
+        };
+    }, [sessionRecording]);
+
+    const getStationElapsedMs = () => stationStartRef.current === null ? 0 : Date.now() - stationStartRef.current;
+
+    const markTurnStart = (role: TranscriptEntry['role']) => {
+        if (turnStartRef.current[role] === undefined) turnStartRef.current[role] = getStationElapsedMs();
+    };
+
+    const finishTurn = (role: TranscriptEntry['role'], text: string, isFinal: boolean = true): TranscriptEntry => {
+        const endMs = getStationElapsedMs();
+        const startMs = turnStartRef.current[role] ?? endMs;
+        delete turnStartRef.current[role];
+        return { role, text, startMs, endMs, isFinal };
+    };
+
+    // Playback goes through the recorder so the patient and examiner voices are captured alongside the candidate.
+    const getAudioOutput = (audioContext: AudioContext): AudioNode => sessionRecorderRef.current?.output ?? audioContext.destination;
+
     useLayoutEffect(() => {
         transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [transcripts, currentStudentTranscript, currentSpTranscript, currentExaminerTranscript]);
     
+    // Runs every captured chunk through the voice activity detector, for the level meter, the inactivity timers
+    // and the warning shown when the candidate spoke but too quietly or with a distorted signal to be understood.
+    const trackVoiceActivity = (samples: Float32Array) => {
+        const activity = voiceActivity.process(samples);
+        isStudentSpeakingRef.current = activity.isSpeaking;
+        setIsStudentSpeaking(activity.isSpeaking);
+        if (activity.endedUtterance?.isUnclear) {
+            setUnclearAudioWarning(true);
+            setTimeout(() => setUnclearAudioWarning(false), 3000);
+        }
+    };
+
+    // Microphone audio goes to one consumer at a time: the patient session, then the examiner Q&A.
+    const replaceAudioCapture = async (onSamples: (samples: Float32Array) => void) => {
+        if (!inputAudioContextRef.current || !mediaStreamSourceRef.current) return;
+        audioCaptureRef.current?.stop();
+        const capture = await startAudioCapture(inputAudioContextRef.current, mediaStreamSourceRef.current, onSamples);
+        // The exam may have ended while the capture worklet was loading.
+        if (exam.getPhase() === 'ended') {
+            capture.stop();
+            return;
+        }
+        audioCaptureRef.current = capture;
+    };
+
     const playAudio = async (base64Audio: string, onEnded: () => void = () => {}) => {
         if (!outputAudioContextRef.current || !base64Audio) return;
         const audioContext = outputAudioContextRef.current;
         const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
         const source = audioContext.createBufferSource();
         source.buffer = audioBuffer;
-        source.connect(audioContext.destination);
+        source.connect(getAudioOutput(audioContext));
         
         return new Promise<void>(resolve => {
             source.onended = () => {
@@ -105,93 +251,81 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
         let currentInput = '';
         let currentOutput = '';
 
-        const systemInstruction = getExaminerQAPrompt(transcriptsRef.current, feedback);
-    
-        const qaSessionPromise = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-                inputAudioTranscription: {},
-                outputAudioTranscription: {},
-                systemInstruction: systemInstruction,
+        const qaSessionPromise = aiProvider.connectExaminerQA(transcriptsRef.current, feedback, {
+            onOpen: () => {
+                setStatus('You may ask the examiner questions now.');
+                replaceAudioCapture((samples) => {
+                    if (isBlocked) return;
+                    trackVoiceActivity(samples);
+                    qaSessionPromise.then((session) => {
+                        session.sendAudio(samples);
+                    });
+                }).catch((error) => {
+                    // The examiner could never hear the candidate, so the Q&A is closed rather than left waiting.
+                    console.error("Failed to start microphone capture for Q&A:", error);
+                    setStatus('Microphone could not be started, so the examiner Q&A has ended.');
+                    qaSessionPromise.then((session) => session.close());
+                });
             },
-            callbacks: {
-                onopen: () => {
-                    setStatus('You may ask the examiner questions now.');
-                    if (inputAudioContextRef.current && mediaStreamSourceRef.current) {
-                        scriptProcessorRef.current?.disconnect();
-        
-                        const qaScriptProcessor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorRef.current = qaScriptProcessor;
-        
-                        qaScriptProcessor.onaudioprocess = (event) => {
-                            if (isBlocked) return;
-                            const inputData = event.inputBuffer.getChannelData(0);
-                            const pcmBlob = createBlob(inputData);
-                            qaSessionPromise.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
-                        };
-
-                        const gainNode = inputAudioContextRef.current.createGain();
-                        gainNode.gain.setValueAtTime(0, inputAudioContextRef.current.currentTime);
-                        mediaStreamSourceRef.current.connect(qaScriptProcessor);
-                        qaScriptProcessor.connect(gainNode);
-                        gainNode.connect(inputAudioContextRef.current.destination);
-                    }
-                },
-                onmessage: async (message: LiveServerMessage) => {
-                    if (message.serverContent?.inputTranscription) currentInput += message.serverContent.inputTranscription.text;
-                    if (message.serverContent?.outputTranscription) currentOutput += message.serverContent.outputTranscription.text;
-                    setCurrentStudentTranscript(currentInput);
-                    setCurrentExaminerTranscript(currentOutput);
-    
-                    if (message.serverContent?.turnComplete) {
-                        const newTranscripts: TranscriptEntry[] = [];
-                        if (currentInput.trim()) newTranscripts.push({ role: 'Student', text: currentInput.trim() });
-                        if (currentOutput.trim()) newTranscripts.push({ role: 'Examiner', text: currentOutput.trim() });
-                        if (newTranscripts.length > 0) setTranscripts(prev => [...prev, ...newTranscripts]);
-                        currentInput = '';
-                        currentOutput = '';
-                        setCurrentStudentTranscript('');
-                        setCurrentExaminerTranscript('');
-                    }
-                    
-                    const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                    if (audioData && outputAudioContextRef.current) {
-                        setIsExaminerSpeaking(true);
-                        const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current, 24000, 1);
-                        const source = outputAudioContextRef.current.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputAudioContextRef.current.destination);
-                        source.addEventListener('ended', () => setIsExaminerSpeaking(false));
-                        source.start();
-                    }
-                },
-                onerror: (e) => setStatus('Connection error during Q&A.'),
-                onclose: () => {
-                    if(examStateRef.current !== 'ended') handleEndExam();
-                },
+            onInputTranscription: (text) => {
+                markTurnStart('Student');
+                currentInput += text;
+                setCurrentStudentTranscript(currentInput);
+            },
+            onOutputTranscription: (text) => {
+                markTurnStart('Examiner');
+                currentOutput += text;
+                setCurrentExaminerTranscript(currentOutput);
+            },
+            onTurnComplete: () => {
+                const newTranscripts: TranscriptEntry[] = [];
+                if (currentInput.trim()) newTranscripts.push(finishTurn('Student', currentInput.trim()));
+                if (currentOutput.trim()) newTranscripts.push(finishTurn('Examiner', currentOutput.trim()));
+                if (newTranscripts.length > 0) setTranscripts(prev => [...prev, ...newTranscripts]);
+                currentInput = '';
+                currentOutput = '';
+                setCurrentStudentTranscript('');
+                setCurrentExaminerTranscript('');
+            },
+            onAudio: async (audioData) => {
+                if (!outputAudioContextRef.current) return;
+                setIsExaminerSpeaking(true);
+                const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current, 24000, 1);
+                const source = outputAudioContextRef.current.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(getAudioOutput(outputAudioContextRef.current));
+                source.addEventListener('ended', () => setIsExaminerSpeaking(false));
+                source.start();
+            },
+            onError: (e) => setStatus('Connection error during Q&A.'),
+            onClose: () => {
+                exam.send({ type: 'qa-ended' });
             },
         });
         sessionPromiseRef.current = qaSessionPromise;
-    }, [isBlocked]);
+    }, [isBlocked, aiProvider]);
 
-    const triggerFeedbackPhase = useCallback(async () => {
-        if (examStateRef.current !== 'in-progress') return;
-    
+    // Runs once the exam is in the feedback phase: closes the encounter, then streams and speaks the examiner's feedback.
+    const runFeedbackPhase = useCallback(async () => {
         if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
         if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
         setSilenceWarningVisible(false);
     
-        setExamState('feedback');
         setStatus('Interaction complete. Generating feedback and scores...');
         setExaminerFeedback(''); // Start with an empty string
         sessionPromiseRef.current?.then(session => session.close());
-        scriptProcessorRef.current?.disconnect();
+        audioCaptureRef.current?.stop();
     
-        setTranscripts(prev => [...prev, { role: 'Examiner', text: '...' }]);
+        // Turns still being spoken when the station closed are kept, marked as cut off.
+        const unfinishedTurns: TranscriptEntry[] = [];
+        if (currentStudentTranscriptRef.current.trim()) unfinishedTurns.push(finishTurn('Student', currentStudentTranscriptRef.current.trim(), false));
+        if (currentSpTranscriptRef.current.trim()) unfinishedTurns.push(finishTurn('SP', currentSpTranscriptRef.current.trim(), false));
+        setCurrentStudentTranscript('');
+        setCurrentSpTranscript('');
+        const encounter = [...transcriptsRef.current, ...unfinishedTurns];
+
+        const feedbackStartMs = getStationElapsedMs();
+        setTranscripts(prev => [...prev, ...unfinishedTurns, { role: 'Examiner', text: '...', startMs: feedbackStartMs, endMs: feedbackStartMs, isFinal: false }]);
     
         let fullFeedbackText = '';
         let textBuffer = '';
@@ -199,7 +333,7 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
     
         const playQueuedAudio = async (textToSpeak: string) => {
             if (!textToSpeak.trim()) return;
-            const audioData = await textToSpeech(textToSpeak, 'Kore');
+            const audioData = await aiProvider.textToSpeech(textToSpeak, 'Kore');
             if (audioData) {
                 const lastPromise = audioQueue.length > 0 ? audioQueue[audioQueue.length - 1] : Promise.resolve();
                 const newPlaybackPromise = lastPromise.then(() => {
@@ -242,44 +376,77 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
             processTextForSpeech();
         };
     
-        const { feedbackText, scoreData } = await streamDetailedExaminerFeedback(transcriptsRef.current, onChunkReceived);
+        const { feedbackText, scoring } = await aiProvider.streamExaminerFeedback(encounter, clinicalCase, rubric, onChunkReceived);
         
         setExaminerFeedback(feedbackText);
+        const feedbackEndMs = getStationElapsedMs();
         setTranscripts(prev => {
             const newTranscripts = [...prev];
-            if (newTranscripts.length > 0 && newTranscripts[newTranscripts.length - 1].role === 'Examiner') {
-                newTranscripts[newTranscripts.length - 1].text = feedbackText;
+            const last = newTranscripts[newTranscripts.length - 1];
+            if (last && last.role === 'Examiner') {
+                newTranscripts[newTranscripts.length - 1] = { ...last, text: feedbackText, endMs: feedbackEndMs, isFinal: true };
             }
             return newTranscripts;
         });
-        setScoreData(scoreData);
+        setScoreAudit(scoring.scoreData ? createAuditTrail(scoring.scoreData) : null);
+        setScoringError(scoring.error);
+        setChecklistError(scoring.checklistError);
 
         processTextForSpeech(true);
     
         await Promise.all(audioQueue);
         
         setIsExaminerSpeaking(false);
-        setExamState('q&a');
-        connectToExaminerQASession(feedbackText);
+        // The exam may have been terminated while feedback was playing.
+        if (exam.send({ type: 'feedback-done' })) connectToExaminerQASession(feedbackText);
     
-    }, [connectToExaminerQASession]);
+    }, [connectToExaminerQASession, clinicalCase, rubric, aiProvider]);
 
     const resetSilenceTimer = useCallback(() => {
         if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
         if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
         setSilenceWarningVisible(false);
 
-        if (examStateRef.current === 'in-progress') { 
+        // The countdown only runs while nobody is talking.
+        if (exam.getPhase() === 'in-progress' && !isProctoringHoldRef.current && !isStudentSpeakingRef.current && !isPatientSpeakingRef.current) {
             warningTimerRef.current = window.setTimeout(() => {
                 setSilenceWarningVisible(true);
             }, 15000); // 15 seconds to show warning
 
             silenceTimerRef.current = window.setTimeout(() => {
                 setSilenceWarningVisible(false);
-                triggerFeedbackPhase();
+                if (exam.send({ type: 'silence-timeout' })) runFeedbackPhase();
             }, 20000); // 20 seconds of silence triggers feedback
         }
-    }, [triggerFeedbackPhase]);
+    }, [runFeedbackPhase]);
+
+    // Either side starting to speak stops the inactivity countdown; it starts again from zero once both are quiet.
+    const isConversationQuiet = !isStudentSpeaking && !isPatientSpeaking;
+    const wasConversationQuietRef = useRef(isConversationQuiet);
+    useEffect(() => {
+        if (isConversationQuiet !== wasConversationQuietRef.current) resetSilenceTimer();
+        wasConversationQuietRef.current = isConversationQuiet;
+    }, [isConversationQuiet, resetSilenceTimer]);
+
+    // Only frames already judged clear (one person, present) are compared with the enrolled face.
+    // A mismatch is re-checked on the next frame rather than after the full interval, so it can be confirmed quickly.
+    const runIdentityCheck = useCallback(async (canvas: HTMLCanvasElement, base64ImageData: string) => {
+        const isRecheck = identityMismatchCountRef.current > 0;
+        if (!isRecheck && Date.now() - lastIdentityCheckRef.current < policy.identityCheckIntervalMs) return;
+        lastIdentityCheckRef.current = Date.now();
+
+        const result = await aiProvider.compareFaces(candidateIdentity.referenceFace.split(',')[1], base64ImageData, 'enrolled-face');
+        if (result.status === 'error') return;
+        if (result.status === 'match' || (result.confidence !== null && result.confidence < policy.minConfidence)) {
+            identityMismatchCountRef.current = 0;
+            return;
+        }
+
+        identityMismatchCountRef.current += 1;
+        if (identityMismatchCountRef.current < policy.confirmationsRequired) return;
+        identityMismatchCountRef.current = 0;
+        onViolation('identity-mismatch', result.reason, { snapshot: createThumbnail(canvas), confidence: result.confidence });
+    }, [candidateIdentity, onViolation, policy, aiProvider]);
 
     const runProctoringCheck = useCallback(async () => {
         if (!localVideoRef.current || !canvasRef.current || localVideoRef.current.readyState < 2 || isBlocked) return;
@@ -293,102 +460,166 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
           context.drawImage(video, 0, 0, canvas.width, canvas.height);
           const base64ImageData = canvas.toDataURL('image/jpeg').split(',')[1];
           
-          const result = await analyzeStudentFrame(base64ImageData);
-          if (result.isCheating) {
-            onViolation(result.reason);
+          const checkStartedAt = new Date().toISOString();
+          const result = await aiProvider.analyzeFrame(base64ImageData);
+          setProctoringHealth(prev => recordProctoringCheck(prev, policy, result.status !== 'error', checkStartedAt));
+          if (result.status === 'clear') await runIdentityCheck(canvas, base64ImageData);
+          if (result.status !== 'violation' || !result.violationType) {
+            pendingViolationRef.current = null;
+            return;
+          }
+          // Low-confidence detections neither raise a warning nor break a run of confirmations.
+          if (result.confidence !== null && result.confidence < policy.minConfidence) return;
+
+          const category = result.violationType;
+          const pending = pendingViolationRef.current;
+          const count = pending && pending.category === category ? pending.count + 1 : 1;
+          if (count < policy.confirmationsRequired) {
+            pendingViolationRef.current = { category, count };
+            return;
           }
+          pendingViolationRef.current = null;
+          // Keep the analysed frame as evidence for the incident review.
+          onViolation(category, result.reason, { snapshot: createThumbnail(canvas), confidence: result.confidence });
         }
-    }, [isBlocked, onViolation]);
+    }, [isBlocked, onViolation, policy, runIdentityCheck, aiProvider]);
 
     useEffect(() => {
         if (examState === 'in-progress' && !isBlocked) {
-            const intervalId = setInterval(runProctoringCheck, 7000);
+            const intervalId = setInterval(runProctoringCheck, policy.examCheckIntervalMs);
             return () => clearInterval(intervalId);
         }
-    }, [examState, isBlocked, runProctoringCheck]);
+    }, [examState, isBlocked, runProctoringCheck, policy]);
+
+    const runAudioProctoringCheck = useCallback(async (duringPatientTurn: boolean) => {
+        const audioProctor = audioProctorRef.current;
+        if (!audioProctor || isAudioCheckRunningRef.current || isBlocked) return;
+        const samples = audioProctor.getRecentAudio(10);
+        if (samples.length < audioProctor.sampleRate) return;
+
+        isAudioCheckRunningRef.current = true;
+        lastAudioCheckRef.current = Date.now();
+        try {
+            const base64Wav = encode(encodeWav(samples, audioProctor.sampleRate));
+            const result = await aiProvider.analyzeAudio(base64Wav, duringPatientTurn);
+            if (result.status !== 'violation' || !result.violationType) return;
+            if (result.confidence !== null && result.confidence < policy.minConfidence) return;
+            // Keep the analysed clip so the invigilator can listen to exactly what was flagged.
+            onViolation(result.violationType, result.reason, { audioClip: `data:audio/wav;base64,${base64Wav}`, confidence: result.confidence });
+        } finally {
+            isAudioCheckRunningRef.current = false;
+        }
+    }, [isBlocked, onViolation, policy, aiProvider]);
+
+    // Audio is sampled on the policy's interval, and immediately when the candidate talks over the patient.
+    useEffect(() => {
+        if (examState === 'in-progress' && !isBlocked) {
+            lastAudioCheckRef.current = Date.now();
+            const intervalId = setInterval(() => {
+                const audioProctor = audioProctorRef.current;
+                if (!audioProctor) return;
+                if (audioProctor.consumeSuspicion()) {
+                    runAudioProctoringCheck(true);
+                } else if (Date.now() - lastAudioCheckRef.current >= policy.audioCheckIntervalMs) {
+                    runAudioProctoringCheck(false);
+                }
+            }, 1000);
+            return () => clearInterval(intervalId);
+        }
+    }, [examState, isBlocked, runAudioProctoringCheck, policy]);
 
     const connectToPatientSession = () => {
         let currentInput = '';
         let currentOutput = '';
         
-        sessionPromiseRef.current = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-                inputAudioTranscription: {},
-                outputAudioTranscription: {},
-                systemInstruction: patientScript,
+        sessionPromiseRef.current = aiProvider.connectPatient(clinicalCase, transcriptsRef.current, {
+            onOpen: () => {
+                setStatus('Live session open.');
+                reconnectionAttemptRef.current = 0;
             },
-            callbacks: {
-                onopen: () => {
-                    setStatus('Live session open.');
-                    reconnectionAttemptRef.current = 0;
-                },
-                onmessage: async (message: LiveServerMessage) => {
-                    if (message.serverContent?.inputTranscription) currentInput += message.serverContent.inputTranscription.text;
-                    if (message.serverContent?.outputTranscription) currentOutput += message.serverContent.outputTranscription.text;
-                    setCurrentStudentTranscript(currentInput);
-                    setCurrentSpTranscript(currentOutput);
-
-                    if (message.serverContent?.turnComplete) {
-                        const studentText = currentInput.trim();
-                        const spText = currentOutput.trim();
-
-                        if (studentText.length === 0 && spText.length === 0 && currentInput.length > 0) {
-                            setUnclearAudioWarning(true);
-                            setTimeout(() => setUnclearAudioWarning(false), 3000);
-                        }
-
-                        const newTranscripts: TranscriptEntry[] = [];
-                        if (studentText) newTranscripts.push({ role: 'Student', text: studentText });
-                        if (spText) newTranscripts.push({ role: 'SP', text: spText });
-                        
-                        if(newTranscripts.length > 0) {
-                             setTranscripts(prev => [...prev, ...newTranscripts]);
-                        }
-
-                        resetSilenceTimer(); // Reset silence timer after each turn.
-
-                        currentInput = '';
-                        currentOutput = '';
-                        setCurrentStudentTranscript('');
-                        setCurrentSpTranscript('');
-                    }
-                    
-                    const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                    if (audioData && outputAudioContextRef.current) {
-                        setIsPatientSpeaking(true);
-                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
-                        const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current, 24000, 1);
-                        const source = outputAudioContextRef.current.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputAudioContextRef.current.destination);
-                        source.addEventListener('ended', () => {
-                            audioSourcesRef.current.delete(source);
-                            if (audioSourcesRef.current.size === 0) setIsPatientSpeaking(false);
-                        });
-                        source.start(nextStartTimeRef.current);
-                        nextStartTimeRef.current += audioBuffer.duration;
-                        audioSourcesRef.current.add(source);
-                    }
-                },
-                onerror: (e) => setStatus('Connection error. Attempting to reconnect...'),
-                onclose: () => {
-                    if (examStateRef.current === 'in-progress') {
-                        setStatus('Connection closed. Reconnecting...');
-                        if (reconnectionAttemptRef.current < 5) {
-                            setTimeout(() => {
-                                reconnectionAttemptRef.current++;
-                                connectToPatientSession();
-                            }, 2000 * reconnectionAttemptRef.current);
-                        } else {
-                            setStatus('Connection failed permanently. Please refresh.');
-                        }
+            onInputTranscription: (text) => {
+                markTurnStart('Student');
+                currentInput += text;
+                setCurrentStudentTranscript(currentInput);
+            },
+            onOutputTranscription: (text) => {
+                markTurnStart('SP');
+                currentOutput += text;
+                setCurrentSpTranscript(currentOutput);
+            },
+            onTurnComplete: () => {
+                const studentText = currentInput.trim();
+                const spText = currentOutput.trim();
+
+                const newTranscripts: TranscriptEntry[] = [];
+                if (studentText) newTranscripts.push(finishTurn('Student', studentText));
+                if (spText) newTranscripts.push(finishTurn('SP', spText));
+                
+                if(newTranscripts.length > 0) {
+                     setTranscripts(prev => [...prev, ...newTranscripts]);
+                }
+
+                resetSilenceTimer(); // Reset silence timer after each turn.
+
+                currentInput = '';
+                currentOutput = '';
+                setCurrentStudentTranscript('');
+                setCurrentSpTranscript('');
+            },
+            onAudio: async (audioData) => {
+                if (!outputAudioContextRef.current) return;
+                const generation = playbackGenerationRef.current;
+                setIsPatientSpeaking(true);
+                const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current, 24000, 1);
+                if (generation !== playbackGenerationRef.current || !outputAudioContextRef.current) return;
+                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
+                const source = outputAudioContextRef.current.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(getAudioOutput(outputAudioContextRef.current));
+                source.addEventListener('ended', () => {
+                    audioSourcesRef.current.delete(source);
+                    if (audioSourcesRef.current.size === 0) setIsPatientSpeaking(false);
+                });
+                source.start(nextStartTimeRef.current);
+                nextStartTimeRef.current += audioBuffer.duration;
+                audioSourcesRef.current.add(source);
+            },
+            onInterrupted: () => {
+                // The student talked over the patient: drop the rest of the reply and restart the playback clock.
+                playbackGenerationRef.current++;
+                audioSourcesRef.current.forEach(source => source.stop());
+                audioSourcesRef.current.clear();
+                nextStartTimeRef.current = 0;
+                setIsPatientSpeaking(false);
+
+                // What the patient had said so far is kept as an interrupted turn, after the question it was answering.
+                const studentText = currentInput.trim();
+                const spText = currentOutput.trim();
+                const newTranscripts: TranscriptEntry[] = [];
+                if (studentText) newTranscripts.push(finishTurn('Student', studentText));
+                if (spText) newTranscripts.push({ ...finishTurn('SP', spText, false), interrupted: true });
+                if (newTranscripts.length > 0) setTranscripts(prev => [...prev, ...newTranscripts]);
+
+                currentInput = '';
+                currentOutput = '';
+                setCurrentStudentTranscript('');
+                setCurrentSpTranscript('');
+            },
+            onError: (e) => setStatus('Connection error. Attempting to reconnect...'),
+            onClose: () => {
+                if (exam.send({ type: 'connection-lost' })) {
+                    setStatus('Connection closed. Reconnecting...');
+                    if (reconnectionAttemptRef.current < 5) {
+                        setTimeout(() => {
+                            reconnectionAttemptRef.current++;
+                            connectToPatientSession();
+                        }, 2000 * reconnectionAttemptRef.current);
                     } else {
-                        setStatus('Patient session closed.');
+                        setStatus('Connection failed permanently. Please refresh.');
                     }
-                },
+                } else {
+                    setStatus('Patient session closed.');
+                }
             },
         });
     };
@@ -401,30 +632,53 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
                 if (localVideoRef.current) localVideoRef.current.srcObject = streamRef.current;
 
                 setStatus('Initializing Audio Context...');
-                inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+                // Capture resamples to the rate the AI expects, so the input context runs at the device's native rate.
+                inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
                 // FIX: Remove sampleRate hint to prevent playback speed issues in some browsers.
                 outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
                 
                 if (inputAudioContextRef.current && streamRef.current) {
                     mediaStreamSourceRef.current = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
                 }
+                if (outputAudioContextRef.current && streamRef.current) {
+                    sessionRecorderRef.current = createSessionRecorder(streamRef.current, outputAudioContextRef.current);
+                }
+
+                // A session interrupted after the encounter picks up at the feedback or Q&A it was in.
+                if (resumeSession?.phase === 'feedback' || resumeSession?.phase === 'q&a') {
+                    stationStartRef.current = Date.now() - resumeSession.stationElapsedMs;
+                    exam.send({ type: 'resume', phase: resumeSession.phase });
+                    if (resumeSession.phase === 'feedback') {
+                        runFeedbackPhase();
+                    } else {
+                        setStatus('Session restored. You can continue asking the examiner questions.');
+                        connectToExaminerQASession(resumeSession.examinerFeedback);
+                    }
+                    return;
+                }
 
                 setStatus('Connecting to AI...');
                 connectToPatientSession();
 
+                if (transcriptsRef.current.length > 0) {
+                    setStatus('Session restored. Press Ready to continue the station.');
+                    exam.send({ type: 'resume', phase: 'ready' });
+                    return;
+                }
+
                 setStatus('Generating introductions...');
                 const examinerGreetingText = "Welcome to the clinical exam. I will be observing. The patient will begin once you are ready.";
                 setExaminerFeedback(examinerGreetingText);
                 const [spGreetingAudio, examinerGreetingAudio] = await Promise.all([
-                    textToSpeech("Hello. Please press Ready when you wish to begin.", 'Zephyr'),
-                    textToSpeech(examinerGreetingText, 'Kore')
+                    aiProvider.textToSpeech("Hello. Please press Ready when you wish to begin.", clinicalCase.voice),
+                    aiProvider.textToSpeech(examinerGreetingText, 'Kore')
                 ]);
                 
                 if (spGreetingAudio) await playAudio(spGreetingAudio);
                 if (examinerGreetingAudio) await playAudio(examinerGreetingAudio);
 
                 setStatus('Please press Ready to begin.');
-                setExamState('ready');
+                exam.send({ type: 'ready' });
 
             } catch (err) {
                 console.error("Error setting up session:", err);
@@ -438,7 +692,7 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
             sessionPromiseRef.current?.then(session => session.close());
             if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
             if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
-            scriptProcessorRef.current?.disconnect();
+            audioCaptureRef.current?.stop();
             mediaStreamSourceRef.current?.disconnect();
             streamRef.current?.getTracks().forEach(track => track.stop());
             if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
@@ -451,42 +705,78 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
         };
     }, []);
 
+    const wasProctoringHoldRef = useRef(false);
+    useEffect(() => {
+        if (isProctoringHold) {
+            if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+            if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
+            setSilenceWarningVisible(false);
+            setStatus('Proctoring unavailable. Exam on hold.');
+        } else if (wasProctoringHoldRef.current && exam.getPhase() === 'in-progress') {
+            setStatus('Proctoring restored. You may continue.');
+            resetSilenceTimer();
+        }
+        wasProctoringHoldRef.current = isProctoringHold;
+    }, [isProctoringHold, resetSilenceTimer]);
+
+    const handleInvigilatorOverride = () => {
+        if (!invigilatorId.trim()) return;
+        setProctoringHealth(prev => acknowledgeOutage(prev, invigilatorId));
+    };
+
     useEffect(() => {
         if(isBlocked) {
-            handleEndExam();
+            exam.send({ type: 'blocked' });
             setStatus('Exam Terminated.');
         }
     }, [isBlocked]);
 
+    // The microphone is started before the station is, so a capture failure leaves the station on its Ready screen
+    // instead of running with no audio and no inactivity timer.
     const handleStartExam = async () => {
         if (!inputAudioContextRef.current || !mediaStreamSourceRef.current) return;
-        
-        setExamState('in-progress');
+        if (exam.getPhase() !== 'ready' || isStartingStationRef.current) return;
+        isStartingStationRef.current = true;
+
         setStatus('Connecting microphone...');
-        
-        scriptProcessorRef.current?.disconnect();
-        const scriptProcessor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-        scriptProcessorRef.current = scriptProcessor;
-
-        scriptProcessor.onaudioprocess = (event) => {
-            if (isBlocked) return;
-            const inputData = event.inputBuffer.getChannelData(0);
-            const pcmBlob = createBlob(inputData);
-            sessionPromiseRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
+        audioProctorRef.current = createAudioProctor(CAPTURE_SAMPLE_RATE);
+        try {
+            await replaceAudioCapture((samples) => {
+                if (isBlocked || isProctoringHoldRef.current) return;
+                trackVoiceActivity(samples);
+                audioProctorRef.current?.pushSamples(samples, isPatientSpeakingRef.current);
+                sessionPromiseRef.current?.then((session) => {
+                    session.sendAudio(samples);
+                });
             });
-        };
-        
-        const gainNode = inputAudioContextRef.current.createGain();
-        gainNode.gain.setValueAtTime(0, inputAudioContextRef.current.currentTime);
-        mediaStreamSourceRef.current.connect(scriptProcessor);
-        scriptProcessor.connect(gainNode);
-        gainNode.connect(inputAudioContextRef.current.destination);
-        
+        } catch (error) {
+            console.error("Failed to start microphone capture:", error);
+            setStatus('Microphone could not be started. The station has not begun; please ask the invigilator for help.');
+            return;
+        } finally {
+            isStartingStationRef.current = false;
+        }
+        if (!exam.send({ type: 'start' })) {
+            audioCaptureRef.current?.stop();
+            return;
+        }
+
+        // A resumed station carries on its clock from where it was interrupted.
+        const stationElapsedMs = resumeSession?.stationElapsedMs ?? 0;
+        stationStartRef.current = Date.now() - stationElapsedMs;
+        turnStartRef.current = {};
+        sessionRecorderRef.current?.start(stationElapsedMs);
+
         setStatus('Connected. You may begin speaking.');
+
+        if (transcriptsRef.current.length > 0) {
+            // The patient has already greeted the student before the interruption.
+            resetSilenceTimer();
+            return;
+        }
         
         try {
-            const greetingAudio = await textToSpeech("Hello, doctor.", 'Zephyr');
+            const greetingAudio = await aiProvider.textToSpeech(clinicalCase.openingLine, clinicalCase.voice);
             if (greetingAudio) {
                 setIsPatientSpeaking(true);
                 // Start silence timer after the patient finishes greeting
@@ -504,55 +794,58 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
     };
 
     const handleEndExam = () => {
-        setExamState('ended');
-        sessionPromiseRef.current?.then(session => session.close());
-        if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
-        if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
-        scriptProcessorRef.current?.disconnect();
+        exam.send({ type: 'student-ended' });
     };
 
-    // --- Score Editing Handlers ---
-    const handleEditScores = () => {
-        setEditedScoreData(scoreData); // Copy current scores to editable state
-        setIsEditingScores(true);
+    const handleRetryScoring = async () => {
+        setIsRetryingScores(true);
+        // Score only the student-patient encounter, not the examiner feedback or Q&A that followed it.
+        const feedbackStart = transcriptsRef.current.findIndex(t => t.role === 'Examiner');
+        const encounter = feedbackStart === -1 ? transcriptsRef.current : transcriptsRef.current.slice(0, feedbackStart);
+        const result = await aiProvider.scoreTranscript(encounter, clinicalCase, rubric);
+        setScoreAudit(result.scoreData ? createAuditTrail(result.scoreData) : null);
+        setScoringError(result.error);
+        setChecklistError(result.checklistError);
+        setIsRetryingScores(false);
     };
 
-    const handleCancelEditScores = () => {
-        setEditedScoreData(null);
-        setIsEditingScores(false);
-    };
-
-    const handleSaveScores = () => {
-        if (editedScoreData) {
-            setScoreData(editedScoreData); // Commit changes
+    const handleShowEvidence = (turns: number[]) => {
+        setHighlightedTurns(turns);
+        if (turns.length > 0) {
+            transcriptBubbleRefs.current.get(Math.min(...turns))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
         }
-        setIsEditingScores(false);
-        setEditedScoreData(null);
     };
 
-    const handleScoreChange = (category: keyof Omit<ScoreData, 'overallScore'>, newScore: number) => {
-        setEditedScoreData(prevData => {
-            if (!prevData) return null;
-            
-            const newData: ScoreData = {
-                ...prevData,
-                [category]: {
-                    ...prevData[category],
-                    score: newScore,
-                },
-            };
-            
-            // Recalculate overall score
-            const scores = [newData.rapport.score, newData.historyTaking.score, newData.communication.score];
-            newData.overallScore = scores.reduce((a, b) => a + b, 0) / scores.length;
-
-            return newData;
-        });
+    // Exports are built from the stored session, which also holds the incidents and health recorded by the app.
+    // 'evidence-json' is the invigilator's copy, which keeps the identity photos and incident snapshots and audio.
+    const handleExport = async (format: 'print' | 'html' | 'json' | 'evidence-json' | 'csv') => {
+        const session = await getSession(sessionId);
+        if (!session) {
+            setExportError('This session could not be loaded from local storage, so it cannot be exported.');
+            return;
+        }
+        setExportError(null);
+        if (format === 'evidence-json') {
+            if (!evidenceExportInvigilatorId.trim()) return;
+            const bundle = buildSessionBundle(session, clinicalCase, rubric, evidenceExportInvigilatorId.trim());
+            downloadFile(getExportFilename(bundle, 'evidence.json'), JSON.stringify(bundle, null, 2), 'application/json');
+            return;
+        }
+        const bundle = buildSessionBundle(session, clinicalCase, rubric);
+        if (format === 'print') {
+            printReport(buildCandidateReportHtml(bundle));
+        } else if (format === 'html') {
+            downloadFile(getExportFilename(bundle, 'html'), buildCandidateReportHtml(bundle), 'text/html');
+        } else if (format === 'json') {
+            downloadFile(getExportFilename(bundle, 'json'), JSON.stringify(bundle, null, 2), 'application/json');
+        } else {
+            downloadFile(getExportFilename(bundle, 'csv'), buildSessionCsv([bundle]), 'text/csv');
+        }
     };
 
     if (examState === 'ended') {
         return (
-          <div className="flex flex-col items-center justify-center h-[calc(100vh-68px)]">
+          <div className="flex flex-col items-center justify-center min-h-[calc(100vh-68px)] py-6">
             <div className="text-center p-10 bg-gray-900/50 rounded-2xl shadow-2xl border border-gray-700/50">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto mb-4 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -560,8 +853,57 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
               <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-teal-400">
                 {isBlocked ? 'Exam Terminated' : 'Exam Complete'}
               </h2>
-              <p className="text-gray-300 mt-2">You may now close this window.</p>
+              <p className="text-gray-300 mt-2">Download your report before closing this window.</p>
+              <div className="flex flex-wrap justify-center gap-3 mt-6">
+                <button onClick={() => handleExport('print')} className="px-4 py-2 font-semibold text-white bg-violet-700 rounded-md hover:bg-violet-800 transition-all">
+                  Print / Save Report as PDF
+                </button>
+                <button onClick={() => handleExport('html')} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                  Download Report (HTML)
+                </button>
+                <button onClick={() => handleExport('json')} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                  Session Data (JSON)
+                </button>
+                <button onClick={() => handleExport('csv')} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                  Results Row (CSV)
+                </button>
+              </div>
+              {exportError && <p className="mt-3 text-sm text-red-400">{exportError}</p>}
+              <div className="flex flex-wrap justify-center gap-3 mt-6">
+                <button onClick={onReviewIncidents} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                  Invigilator: Review Proctoring Incidents
+                </button>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={evidenceExportInvigilatorId}
+                    onChange={e => setEvidenceExportInvigilatorId(e.target.value)}
+                    placeholder="Invigilator ID"
+                    aria-label="Invigilator ID for evidence export"
+                    className="px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                  />
+                  <button onClick={() => handleExport('evidence-json')} disabled={!evidenceExportInvigilatorId.trim()} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md transition-all hover:enabled:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Invigilator: Session Data with Evidence (JSON)
+                  </button>
+                </div>
+                {sessionRecording && (
+                  <button onClick={() => setIsReplayOpen(true)} className="px-4 py-2 font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600 transition-all">
+                    Examiner: Replay Session
+                  </button>
+                )}
+              </div>
             </div>
+            {/* Read-only here: examiners edit and sign off scores from the marking view (?view=marking). */}
+            {scoreAudit && (
+              <div className="mt-6 w-full max-w-4xl px-4 text-left">
+                <Scorecard rubric={rubric} scoreAudit={scoreAudit} interruptions={countInterruptions(transcripts)} checklistError={checklistError} />
+              </div>
+            )}
+            {isReplayOpen && sessionRecording && (
+              <div className="mt-6 w-full flex justify-center px-4">
+                <SessionReplay recording={sessionRecording} transcripts={transcripts} onClose={() => setIsReplayOpen(false)} />
+              </div>
+            )}
           </div>
         );
       }
@@ -572,7 +914,41 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
             <div className="flex-grow p-4 flex flex-col items-center justify-center gap-4">
                 <div className="w-full max-w-4xl aspect-video bg-black rounded-xl overflow-hidden shadow-2xl border-2 border-blue-500/30 relative group">
                     <video ref={localVideoRef} autoPlay muted className="w-full h-full object-cover transform -scale-x-100" />
-                    <div className="absolute top-2 left-2 bg-black/50 text-white px-3 py-1 rounded-full text-sm font-semibold border border-gray-700">You (Student)</div>
+                    <div className="absolute top-2 left-2 bg-black/50 text-white px-3 py-1 rounded-full text-sm font-semibold border border-gray-700 flex items-center gap-2">
+                        You (Student)
+                        <MicLevelMeter detector={voiceActivity} />
+                    </div>
+                    {proctoringHealth.isDegraded && (
+                        <div className="absolute top-2 right-2 z-10 max-w-xs bg-amber-600/90 text-white px-3 py-2 rounded-lg text-sm font-semibold shadow-lg">
+                            Proctoring degraded: {proctoringHealth.consecutiveFailures} checks failed in a row ({Math.round(getFailureRate(proctoringHealth) * 100)}% failure rate). This period is being recorded as unproctored.
+                        </div>
+                    )}
+                    {isProctoringHold && (
+                        <div className="absolute inset-0 z-10 bg-black/80 flex items-center justify-center backdrop-blur-sm">
+                            <div className="max-w-md p-6 text-center space-y-3">
+                                <h3 className="text-2xl font-bold text-amber-400">Exam On Hold</h3>
+                                {policy.outage.fallback === 'pause' ? (
+                                    <p className="text-gray-300">Proctoring is temporarily unavailable. The exam will resume automatically once it recovers.</p>
+                                ) : (
+                                    <>
+                                        <p className="text-gray-300">Proctoring is unavailable. An invigilator must authorise the exam to continue unproctored.</p>
+                                        <div className="flex gap-2 justify-center">
+                                            <input
+                                                type="text"
+                                                value={invigilatorId}
+                                                onChange={e => setInvigilatorId(e.target.value)}
+                                                placeholder="Invigilator ID"
+                                                className="px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-600 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                                            />
+                                            <button onClick={handleInvigilatorOverride} disabled={!invigilatorId.trim()} className="px-4 py-2 font-semibold text-gray-900 bg-amber-500 rounded-md transition-all hover:enabled:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                                                Continue
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    )}
                     {unclearAudioWarning && (
                         <div className="absolute inset-0 bg-black/60 flex items-center justify-center pointer-events-none">
                             <div className="text-white bg-red-600/90 px-4 py-2 rounded-lg font-semibold flex items-center gap-2 shadow-lg">
@@ -612,7 +988,7 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
                     )}
                 </div>
                 <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-4">
-                     <ParticipantCard name="Alex (Standardized Patient)" isSpeaking={isPatientSpeaking} isActive={examState === 'in-progress'}>
+                     <ParticipantCard name={`${clinicalCase.demographics.name} (Standardized Patient)`} isSpeaking={isPatientSpeaking} isActive={examState === 'in-progress'}>
                         <div className="w-full h-full flex items-center justify-center p-4 text-center">
                             {isPatientSpeaking ? <AudioWaveform color="teal" /> : <StaticIcon type="patient" isActive={examState === 'in-progress'} />}
                         </div>
@@ -625,28 +1001,41 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
                         </div>
                      </ParticipantCard>
                 </div>
-                {scoreData && (
+                {scoreAudit && (
                     <div className="w-full max-w-4xl mt-4">
-                        <ScoreDisplay
-                            scoreData={scoreData}
-                            editedScoreData={editedScoreData}
-                            isEditing={isEditingScores}
-                            isVerified={isScoreVerified}
-                            onEdit={handleEditScores}
-                            onCancel={handleCancelEditScores}
-                            onSave={handleSaveScores}
-                            onScoreChange={handleScoreChange}
-                            onVerify={() => setIsScoreVerified(true)}
+                        <Scorecard
+                            rubric={rubric}
+                            scoreAudit={scoreAudit}
+                            interruptions={countInterruptions(transcripts)}
+                            checklistError={checklistError}
+                            onShowEvidence={handleShowEvidence}
                         />
                     </div>
                 )}
+                {!scoreAudit && scoringError && (
+                    <div className="w-full max-w-4xl mt-4">
+                        <ScoringErrorDisplay error={scoringError} isRetrying={isRetryingScores} onRetry={handleRetryScoring} />
+                    </div>
+                )}
             </div>
             {/* Transcript Sidebar */}
             <aside className="w-full md:w-96 bg-gray-900/50 border-l border-gray-700/50 flex flex-col">
                 <h2 className="text-xl font-bold p-4 border-b border-gray-700/50 text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">Live Transcript</h2>
                 <div className="flex-grow p-4 overflow-y-auto space-y-4">
                     {transcripts.map((t, i) => (
-                        <TranscriptBubble key={i} role={t.role} text={t.text} />
+                        <TranscriptBubble
+                            key={i}
+                            role={t.role}
+                            text={t.text}
+                            isPartial={!t.isFinal}
+                            turnNumber={i + 1}
+                            startMs={t.startMs}
+                            isHighlighted={highlightedTurns.includes(i)}
+                            bubbleRef={el => {
+                                if (el) transcriptBubbleRefs.current.set(i, el);
+                                else transcriptBubbleRefs.current.delete(i);
+                            }}
+                        />
                     ))}
                     {currentStudentTranscript && <TranscriptBubble role="Student" text={currentStudentTranscript} isPartial />}
                     {currentSpTranscript && <TranscriptBubble role="SP" text={currentSpTranscript} isPartial />}
@@ -663,123 +1052,19 @@ const Call: React.FC<CallProps> = ({ onViolation, isBlocked }) => {
 
 // --- UI Components ---
 
-const Star: React.FC<{ filled: boolean; interactive?: boolean; onClick?: () => void }> = ({ filled, interactive, onClick }) => (
-    <svg 
-        className={`w-5 h-5 ${filled ? 'text-yellow-400' : 'text-gray-600'} ${interactive ? 'cursor-pointer hover:scale-125 transition-transform' : ''}`} 
-        xmlns="http://www.w3.org/2000/svg" 
-        viewBox="0 0 20 20" 
-        fill="currentColor"
-        onClick={onClick}
-    >
-        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-    </svg>
-);
-
-const ScoreCategoryDisplay: React.FC<{ 
-    name: string; 
-    categoryKey: keyof Omit<ScoreData, 'overallScore'>;
-    data: { score: number; justification: string };
-    isEditing?: boolean;
-    onScoreChange?: (category: keyof Omit<ScoreData, 'overallScore'>, score: number) => void;
-}> = ({ name, categoryKey, data, isEditing, onScoreChange }) => (
-    <div>
-        <h4 className="font-semibold text-gray-200">{name}</h4>
-        <div className="flex items-center gap-2 my-1">
-            {[...Array(5)].map((_, i) => (
-                <Star 
-                    key={i} 
-                    filled={i < data.score} 
-                    interactive={isEditing}
-                    onClick={isEditing ? () => onScoreChange?.(categoryKey, i + 1) : undefined}
-                />
-            ))}
-            <span className="font-bold text-lg text-white">{data.score}/5</span>
+const ScoringErrorDisplay: React.FC<{ error: string; isRetrying: boolean; onRetry: () => void }> = ({ error, isRetrying, onRetry }) => (
+    <div className="bg-red-900/30 rounded-lg p-6 border border-red-500/50 backdrop-blur-sm flex flex-wrap items-center justify-between gap-4">
+        <div>
+            <h3 className="text-xl font-bold text-red-300">Scorecard Unavailable</h3>
+            <p className="text-sm text-gray-300">{error}</p>
+            <p className="text-sm text-gray-400">Your performance has not been marked. Please retry, or ask an examiner to mark this station manually.</p>
         </div>
-        <p className="text-sm italic text-gray-400">"{data.justification}"</p>
+        <button onClick={onRetry} disabled={isRetrying} className="px-4 py-2 font-semibold text-white bg-red-600 rounded-md transition-all hover:enabled:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed">
+            {isRetrying ? 'Retrying...' : 'Retry Scoring'}
+        </button>
     </div>
 );
 
-const ScoreDisplay: React.FC<{ 
-    scoreData: ScoreData; 
-    editedScoreData: ScoreData | null;
-    isEditing: boolean;
-    isVerified: boolean; 
-    onVerify: () => void;
-    onEdit: () => void;
-    onCancel: () => void;
-    onSave: () => void;
-    onScoreChange: (category: keyof Omit<ScoreData, 'overallScore'>, score: number) => void;
-}> = ({ scoreData, editedScoreData, isEditing, isVerified, onVerify, onEdit, onCancel, onSave, onScoreChange }) => {
-    const displayData = isEditing && editedScoreData ? editedScoreData : scoreData;
-
-    return (
-        <div className="bg-gray-900/70 rounded-lg p-6 border border-gray-700 backdrop-blur-sm animate-fade-in">
-            <div className="flex flex-wrap justify-between items-start gap-4">
-                <div>
-                    <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-500">
-                        Performance Scorecard
-                    </h3>
-                    <p className="text-sm text-gray-400">AI-generated assessment based on performance.</p>
-                </div>
-                {isVerified ? (
-                     <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-green-900/50 border border-green-500/50 text-green-300 font-semibold text-sm">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
-                         Verified
-                     </div>
-                ) : (
-                    <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-amber-900/50 border border-amber-500/50 text-amber-300 font-semibold text-sm">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM10 13a1 1 0 110-2 1 1 0 010 2zm-1-8a1 1 0 011-1h.008a1 1 0 011 1v3.008a1 1 0 01-1 1H9a1 1 0 01-1-1V5z" clipRule="evenodd" /></svg>
-                        Pending Human Verification
-                     </div>
-                )}
-            </div>
-            <div className="mt-4 grid md:grid-cols-3 gap-6 border-t border-gray-700 pt-4">
-                <ScoreCategoryDisplay name="Opening & Rapport" categoryKey="rapport" data={displayData.rapport} isEditing={isEditing} onScoreChange={onScoreChange} />
-                <ScoreCategoryDisplay name="History Taking" categoryKey="historyTaking" data={displayData.historyTaking} isEditing={isEditing} onScoreChange={onScoreChange} />
-                <ScoreCategoryDisplay name="Communication Skills" categoryKey="communication" data={displayData.communication} isEditing={isEditing} onScoreChange={onScoreChange} />
-            </div>
-            <div className="mt-6 border-t border-gray-700 pt-4 flex flex-wrap gap-4 justify-between items-center">
-                 <div>
-                    <p className="text-gray-400 text-sm">Overall Score</p>
-                    <p className="text-3xl font-bold text-white">{displayData.overallScore.toFixed(1)} / 5.0</p>
-                </div>
-                <div className="flex items-center gap-3">
-                    {!isVerified && !isEditing && (
-                        <>
-                            <button onClick={onEdit} className="px-4 py-2 font-semibold text-white bg-blue-600 rounded-md transition-all hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-gray-900">
-                                Edit Scores
-                            </button>
-                            <button onClick={onVerify} className="px-4 py-2 font-semibold text-gray-900 bg-green-500 rounded-md transition-all hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900">
-                                Verify Score
-                            </button>
-                        </>
-                    )}
-                     {isEditing && (
-                        <>
-                            <button onClick={onCancel} className="px-4 py-2 font-semibold text-white bg-gray-600 rounded-md transition-all hover:bg-gray-700">
-                                Cancel
-                            </button>
-                            <button onClick={onSave} className="px-4 py-2 font-semibold text-gray-900 bg-green-500 rounded-md transition-all hover:bg-green-600">
-                                Save Changes
-                            </button>
-                        </>
-                    )}
-                </div>
-            </div>
-            <style>{`
-                @keyframes fade-in {
-                    from { opacity: 0; transform: translateY(10px); }
-                    to { opacity: 1; transform: translateY(0); }
-                }
-                .animate-fade-in {
-                    animation: fade-in 0.5s ease-out forwards;
-                }
-            `}</style>
-        </div>
-    );
-};
-
-
 const StaticIcon: React.FC<{ type: 'patient' | 'examiner', isActive: boolean }> = ({ type, isActive }) => {
     const color = type === 'patient' ? 'text-teal-400' : 'text-purple-400';
     const inactiveColor = 'text-gray-600';
@@ -825,7 +1110,7 @@ const ParticipantCard: React.FC<{ name: string; children: React.ReactNode; isSpe
     )
 };
 
-const TranscriptBubble: React.FC<{ role: 'Student' | 'SP' | 'Examiner', text: string, isPartial?: boolean }> = ({ role, text, isPartial }) => {
+const TranscriptBubble: React.FC<{ role: 'Student' | 'SP' | 'Examiner', text: string, isPartial?: boolean, turnNumber?: number, startMs?: number, isHighlighted?: boolean, bubbleRef?: (el: HTMLDivElement | null) => void }> = ({ role, text, isPartial, turnNumber, startMs, isHighlighted, bubbleRef }) => {
     const isStudent = role === 'Student';
     
     const bubbleStyles = {
@@ -841,9 +1126,13 @@ const TranscriptBubble: React.FC<{ role: 'Student' | 'SP' | 'Examiner', text: st
     };
 
     return (
-         <div className={`w-full flex ${isStudent ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[90%] p-3 rounded-xl ${bubbleStyles[role]} ${isPartial ? 'opacity-70' : ''}`}>
-                <p className={`font-bold text-sm mb-1 ${nameStyles[role]}`}>{role}</p>
+         <div ref={bubbleRef} className={`w-full flex ${isStudent ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[90%] p-3 rounded-xl transition-shadow ${bubbleStyles[role]} ${isPartial ? 'opacity-70' : ''} ${isHighlighted ? 'ring-2 ring-yellow-400 shadow-lg shadow-yellow-500/30' : ''}`}>
+                <p className={`font-bold text-sm mb-1 ${nameStyles[role]}`}>
+                    {role}
+                    {turnNumber !== undefined && <span className="ml-2 font-normal text-xs text-gray-400">#{turnNumber}</span>}
+                    {startMs !== undefined && <span className="ml-2 font-normal text-xs text-gray-400">{formatTimestamp(startMs)}</span>}
+                </p>
                 <p className="text-white text-base">{text}</p>
             </div>
         </div>
@@ -0,0 +1,70 @@
+import { AIProviderId, AudioProctoringResult, ClinicalCase, IdentityMatchResult, ProctoringResult, Rubric, ScoringResult, TranscriptEntry, VoiceName } from '../types';
+import { geminiProvider } from './geminiService';
+import { createMockProvider } from './mockAIProvider';
+
+// The image a live webcam frame is compared against in compareFaces.
+export type IdentityReference = 'id-card' | 'enrolled-face';
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  // Transcription arrives in fragments; a turn is only complete once onTurnComplete fires.
+  onInputTranscription?: (text: string) => void;
+  onOutputTranscription?: (text: string) => void;
+  // Base64 16-bit mono PCM at 24kHz.
+  onAudio?: (base64Pcm: string) => void;
+  onTurnComplete?: () => void;
+  // The user started speaking over the model's reply; the model has stopped generating it, and any of its audio still queued for playback should be dropped.
+  onInterrupted?: () => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveSession {
+  // Mono float samples at CAPTURE_SAMPLE_RATE (16kHz), as delivered by startAudioCapture.
+  sendAudio: (samples: Float32Array) => void;
+  close: () => void;
+}
+
+// Everything the exam needs from an AI backend. Components only talk to this, never to a vendor SDK.
+export interface ExamAIProvider {
+  id: AIProviderId;
+  analyzeFrame: (base64ImageData: string) => Promise<ProctoringResult>;
+  compareFaces: (referenceBase64: string, candidateBase64: string, reference: IdentityReference) => Promise<IdentityMatchResult>;
+  analyzeAudio: (base64Wav: string, duringPatientTurn: boolean) => Promise<AudioProctoringResult>;
+  // Resolves to base64 PCM in the same format as LiveSessionCallbacks.onAudio, or null on failure.
+  textToSpeech: (text: string, voice?: VoiceName) => Promise<string | null>;
+  // Rubric scores plus checklist coverage for a finished encounter; also used to retry failed scoring.
+  scoreTranscript: (transcript: TranscriptEntry[], clinicalCase: ClinicalCase, rubric: Rubric) => Promise<ScoringResult>;
+  streamExaminerFeedback: (
+    transcript: TranscriptEntry[],
+    clinicalCase: ClinicalCase,
+    rubric: Rubric,
+    onChunk: (textChunk: string) => void,
+  ) => Promise<{ feedbackText: string; scoring: ScoringResult }>;
+  // The standardized patient; transcript holds any turns from before a reconnect or reload.
+  connectPatient: (clinicalCase: ClinicalCase, transcript: TranscriptEntry[], callbacks: LiveSessionCallbacks) => Promise<LiveSession>;
+  connectExaminerQA: (transcript: TranscriptEntry[], feedback: string, callbacks: LiveSessionCallbacks) => Promise<LiveSession>;
+  // Input transcription only, for the Lobby microphone check.
+  connectTranscriber: (callbacks: LiveSessionCallbacks) => Promise<LiveSession>;
+}
+
+export interface AIProviderSelection {
+  provider: ExamAIProvider | null;
+  // Why no provider is available; null when provider is set.
+  error: string | null;
+}
+
+// The mock clears every proctoring and identity check and marks every category at the pass mark, so only
+// development builds, or builds made with ALLOW_MOCK_AI=true, may use it. Anywhere else ?ai=mock is ignored.
+const isMockAllowed = (): boolean => import.meta.env.DEV || process.env.ALLOW_MOCK_AI === 'true';
+
+// ?ai=mock (or AI_PROVIDER=mock at build time) runs the whole exam offline where the mock is allowed.
+// Without an API key there is no provider at all, rather than a silent fallback to the mock.
+export const getActiveAIProvider = (search: string = window.location.search): AIProviderSelection => {
+  const requested = new URLSearchParams(search).get('ai') ?? process.env.AI_PROVIDER;
+  if (requested === 'mock' && isMockAllowed()) return { provider: createMockProvider(), error: null };
+  if (!process.env.API_KEY) {
+    return { provider: null, error: 'No Gemini API key is configured for this deployment, so the exam cannot run. Please contact your examiner.' };
+  }
+  return { provider: geminiProvider, error: null };
+};
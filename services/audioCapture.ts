@@ -0,0 +1,144 @@
+// Microphone capture for the live sessions: an AudioWorklet collects the candidate's audio at whatever rate
+// the browser runs its AudioContext, and it is resampled here to the 16kHz the Live API expects.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Audio is handed over in chunks of this length.
+const CHUNK_SECONDS = 0.1;
+// Chunks posted by the worklet but not yet handled on the main thread. Beyond this, new chunks are dropped
+// rather than queued, so a busy or throttled tab never falls further and further behind the microphone.
+const MAX_CHUNKS_IN_FLIGHT = 8;
+
+const PROCESSOR_NAME = 'exam-audio-capture';
+
+const processorSource = `
+class ExamAudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunk = new Float32Array(options.processorOptions.chunkFrames);
+    this.filled = 0;
+    this.inFlight = 0;
+    this.maxInFlight = options.processorOptions.maxInFlight;
+    this.port.onmessage = () => { this.inFlight = Math.max(0, this.inFlight - 1); };
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.chunk.length - this.filled);
+      this.chunk.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled < this.chunk.length) break;
+      if (this.inFlight < this.maxInFlight) {
+        this.inFlight++;
+        this.port.postMessage(this.chunk, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.chunk.length);
+      }
+      this.filled = 0;
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', ExamAudioCaptureProcessor);
+`;
+
+// The processor is registered once per AudioContext.
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadProcessor = (audioContext: BaseAudioContext): Promise<void> => {
+  let loading = loadedContexts.get(audioContext);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([processorSource], { type: 'text/javascript' }));
+    loading = audioContext.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(audioContext, loading);
+    // Let a later call retry if the processor could not be loaded.
+    loading.catch(() => loadedContexts.delete(audioContext));
+  }
+  return loading;
+};
+
+// Converts a stream of sample chunks from one rate to another, carrying the fractional read position and any
+// unread samples across chunks so there are no clicks at chunk boundaries. Downsampling averages the input over
+// the span of each output sample, which filters out most of what would otherwise alias. Samples at either end of
+// the span count for the part of them inside it, so output timing stays exact when the rates are not a whole multiple.
+export const createResampler = (fromRate: number, toRate: number) => {
+  const step = fromRate / toRate;
+  let pending = new Float32Array(0);
+  let position = 0;
+
+  return (input: Float32Array): Float32Array => {
+    if (fromRate === toRate) return input;
+    const samples = new Float32Array(pending.length + input.length);
+    samples.set(pending);
+    samples.set(input, pending.length);
+
+    const output: number[] = [];
+    while (position + Math.max(step, 1) <= samples.length) {
+      const start = Math.floor(position);
+      if (step > 1) {
+        const end = position + step;
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += samples[i] * (Math.min(i + 1, end) - Math.max(i, position));
+        output.push(sum / step);
+      } else {
+        const fraction = position - start;
+        const next = samples[start + 1] ?? samples[start];
+        output.push(samples[start] + (next - samples[start]) * fraction);
+      }
+      position += step;
+    }
+
+    const consumed = Math.floor(position);
+    pending = samples.slice(consumed);
+    position -= consumed;
+    return Float32Array.from(output);
+  };
+};
+
+export interface AudioCapture {
+  stop: () => void;
+}
+
+// Starts delivering the source's audio to onSamples as mono chunks at CAPTURE_SAMPLE_RATE.
+export const startAudioCapture = async (
+  audioContext: AudioContext,
+  source: AudioNode,
+  onSamples: (samples: Float32Array) => void,
+): Promise<AudioCapture> => {
+  await loadProcessor(audioContext);
+  const node = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { chunkFrames: Math.round(audioContext.sampleRate * CHUNK_SECONDS), maxInFlight: MAX_CHUNKS_IN_FLIGHT },
+  });
+  const resample = createResampler(audioContext.sampleRate, CAPTURE_SAMPLE_RATE);
+  let isStopped = false;
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    node.port.postMessage('ack');
+    if (isStopped) return;
+    const samples = resample(event.data);
+    if (samples.length > 0) onSamples(samples);
+  };
+
+  // The node only runs while connected to the destination; the muted gain keeps the microphone off the speakers.
+  const mute = audioContext.createGain();
+  mute.gain.setValueAtTime(0, audioContext.currentTime);
+  source.connect(node);
+  node.connect(mute);
+  mute.connect(audioContext.destination);
+
+  return {
+    stop: () => {
+      if (isStopped) return;
+      isStopped = true;
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+      mute.disconnect();
+    },
+  };
+};
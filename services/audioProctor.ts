@@ -0,0 +1,64 @@
+// Keeps a rolling window of the candidate's microphone audio for proctoring, and flags sustained
+// speech while the standardized patient is talking, when the candidate would normally be listening.
+
+// Speech-level RMS for a close microphone; whispering sits just above the noise floor.
+const VOICE_RMS_THRESHOLD = 0.015;
+// Seconds of candidate speech overlapping the patient's turn before it is worth a closer look.
+const OVERLAP_SECONDS_FOR_SUSPICION = 1.5;
+
+export interface AudioProctor {
+  pushSamples: (samples: Float32Array, patientSpeaking: boolean) => void;
+  getRecentAudio: (seconds: number) => Float32Array;
+  // True once since the last call if speech overlapped a patient turn for long enough.
+  consumeSuspicion: () => boolean;
+  sampleRate: number;
+}
+
+const rms = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, samples.length));
+};
+
+export const createAudioProctor = (sampleRate: number, bufferSeconds: number = 15): AudioProctor => {
+  const capacity = Math.round(sampleRate * bufferSeconds);
+  const ring = new Float32Array(capacity);
+  let writeIndex = 0;
+  let filled = 0;
+  let overlapSeconds = 0;
+  let suspicious = false;
+
+  const pushSamples = (samples: Float32Array, patientSpeaking: boolean) => {
+    for (let i = 0; i < samples.length; i++) {
+      ring[writeIndex] = samples[i];
+      writeIndex = (writeIndex + 1) % capacity;
+    }
+    filled = Math.min(capacity, filled + samples.length);
+
+    if (patientSpeaking && rms(samples) > VOICE_RMS_THRESHOLD) {
+      overlapSeconds += samples.length / sampleRate;
+      if (overlapSeconds >= OVERLAP_SECONDS_FOR_SUSPICION) {
+        suspicious = true;
+        overlapSeconds = 0;
+      }
+    } else if (!patientSpeaking) {
+      overlapSeconds = 0;
+    }
+  };
+
+  const getRecentAudio = (seconds: number): Float32Array => {
+    const length = Math.min(filled, Math.round(seconds * sampleRate));
+    const out = new Float32Array(length);
+    const start = (writeIndex - length + capacity) % capacity;
+    for (let i = 0; i < length; i++) out[i] = ring[(start + i) % capacity];
+    return out;
+  };
+
+  const consumeSuspicion = () => {
+    const wasSuspicious = suspicious;
+    suspicious = false;
+    return wasSuspicious;
+  };
+
+  return { pushSamples, getRecentAudio, consumeSuspicion, sampleRate };
+};
@@ -0,0 +1,91 @@
+import { BrowserViolationType } from '../types';
+
+type IntegritySignalHandler = (type: BrowserViolationType, reason: string) => void;
+
+// The gap between outer and inner window size when devtools are docked is usually well above this.
+// A browser side panel opens a similar gap, so the signal is only ever advisory.
+const DEVTOOLS_SIZE_GAP_PX = 160;
+const DEVTOOLS_POLL_MS = 2000;
+// Switching tab or minimising blurs the window before the page is hidden, so a blur waits this long to see
+// whether it was really a tab switch.
+const FOCUS_LOSS_SETTLE_MS = 100;
+
+type ScreenWithWindowManagement = Screen & EventTarget & { isExtended?: boolean };
+
+// Kept by the caller across monitor restarts, so one extended desktop is only reported once per exam.
+export interface DisplayState {
+  isExtended: boolean;
+}
+
+// Watches for browser-level integrity signals while the exam runs. Fullscreen exits are handled by App.
+// Returns a function that removes every listener.
+export const startBrowserIntegrityMonitor = (onSignal: IntegritySignalHandler, displays: DisplayState): (() => void) => {
+  const cleanups: (() => void)[] = [];
+  const listen = <K extends keyof DocumentEventMap>(target: Document | Window, event: K, handler: (e: DocumentEventMap[K]) => void) => {
+    target.addEventListener(event, handler as EventListener);
+    cleanups.push(() => target.removeEventListener(event, handler as EventListener));
+  };
+
+  listen(document, 'visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      onSignal('tab-switch', 'Exam tab was hidden (switched tab or minimised window).');
+    }
+  });
+
+  let pendingFocusLoss: number | null = null;
+  listen(window, 'blur', () => {
+    if (pendingFocusLoss !== null) return;
+    pendingFocusLoss = window.setTimeout(() => {
+      pendingFocusLoss = null;
+      // A hidden page is already reported as a tab switch.
+      if (document.visibilityState === 'hidden') return;
+      onSignal('focus-loss', 'Exam window lost focus to another application or window.');
+    }, FOCUS_LOSS_SETTLE_MS);
+  });
+  cleanups.push(() => {
+    if (pendingFocusLoss !== null) clearTimeout(pendingFocusLoss);
+  });
+
+  for (const event of ['copy', 'cut', 'paste'] as const) {
+    listen(document, event, e => {
+      e.preventDefault();
+      onSignal('clipboard', `Attempted to ${event} ${event === 'paste' ? 'into' : 'from'} the exam page.`);
+    });
+  }
+
+  listen(document, 'contextmenu', e => {
+    e.preventDefault();
+    onSignal('context-menu', 'Attempted to open the context menu.');
+  });
+
+  // Browser zoom shrinks the inner size in CSS pixels while the outer size stays in screen pixels, so the inner
+  // size is scaled back up first. devicePixelRatio also carries the display's own scaling, which is taken as
+  // whatever it was when the monitor started. Pinch zoom leaves the inner size alone and needs no correction.
+  const baselinePixelRatio = window.devicePixelRatio || 1;
+  const getZoom = () => (window.devicePixelRatio || 1) / baselinePixelRatio;
+
+  let devtoolsOpen = false;
+  const devtoolsPoll = window.setInterval(() => {
+    const zoom = getZoom();
+    const open = window.outerWidth - window.innerWidth * zoom > DEVTOOLS_SIZE_GAP_PX || window.outerHeight - window.innerHeight * zoom > DEVTOOLS_SIZE_GAP_PX;
+    if (open && !devtoolsOpen) {
+      onSignal('devtools', 'Browser developer tools (or a browser side panel) appear to be open; an invigilator should review this.');
+    }
+    devtoolsOpen = open;
+  }, DEVTOOLS_POLL_MS);
+  cleanups.push(() => clearInterval(devtoolsPoll));
+
+  // Multi-screen detection needs the Window Management API, which not every browser exposes.
+  const screen = window.screen as ScreenWithWindowManagement;
+  if (typeof screen.isExtended === 'boolean') {
+    const checkDisplays = () => {
+      if (screen.isExtended && !displays.isExtended) onSignal('multiple-displays', 'More than one display is connected.');
+      displays.isExtended = Boolean(screen.isExtended);
+    };
+    checkDisplays();
+    screen.addEventListener('change', checkDisplays);
+    cleanups.push(() => screen.removeEventListener('change', checkDisplays));
+  }
+
+  return () => cleanups.forEach(cleanup => cleanup());
+};
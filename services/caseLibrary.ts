@@ -0,0 +1,63 @@
+/// <reference types="vite/client" />
+import { ClinicalCase, VoiceName } from '../types';
+import { findRubric } from './rubricLibrary';
+import { isArrayOf, isNonEmptyString, isNumber, isRecord, isString } from './validation';
+
+// Every JSON file dropped into /cases is bundled automatically, so faculty can add stations without touching code.
+const caseModules = import.meta.glob<unknown>('../cases/*.json', { eager: true, import: 'default' });
+
+const requiredStringFields: (keyof ClinicalCase)[] = ['id', 'title', 'rubricId', 'chiefComplaint', 'openingLine'];
+const requiredListFields: (keyof ClinicalCase)[] = ['historyOfPresentIllness', 'pastMedicalHistory', 'medications', 'socialHistory', 'behaviourRules', 'checklist'];
+
+// Keyed by VoiceName, so a voice added to the type has to be listed here before a case can use it.
+const patientVoices: Record<VoiceName, true> = {
+  Zephyr: true, Kore: true, Puck: true, Charon: true, Fenrir: true, Aoede: true, Leda: true, Orus: true,
+};
+
+const isVoiceName = (value: unknown): value is VoiceName => isString(value) && Object.hasOwn(patientVoices, value);
+
+export const isValidCase = (data: unknown, source: string): data is ClinicalCase => {
+  const fields = isRecord(data) ? data : {};
+  const missing = [
+    ...requiredStringFields.filter(field => !isNonEmptyString(fields[field])),
+    ...requiredListFields.filter(field => !Array.isArray(fields[field])),
+  ];
+  const { voice, demographics, checklist } = fields;
+  if (!isVoiceName(voice)) {
+    missing.push('voice');
+  }
+  if (!isRecord(demographics) || !isString(demographics.name) || !isNumber(demographics.age)) {
+    missing.push('demographics');
+  }
+  if (Array.isArray(checklist) && !isArrayOf(checklist, item => isRecord(item) && isString(item.id) && isString(item.label))) {
+    missing.push('checklist');
+  }
+  if (missing.length > 0) {
+    console.error(`Skipping clinical case ${source}: missing or invalid ${missing.join(', ')}`);
+    return false;
+  }
+  return true;
+};
+
+export const loadCaseLibrary = (): ClinicalCase[] => {
+  const seenIds = new Set<string>();
+  const cases: ClinicalCase[] = [];
+
+  for (const [source, data] of Object.entries(caseModules)) {
+    if (!isValidCase(data, source)) continue;
+    if (seenIds.has(data.id)) {
+      console.error(`Skipping clinical case ${source}: duplicate id "${data.id}"`);
+      continue;
+    }
+    if (!findRubric(data.rubricId)) {
+      console.error(`Skipping clinical case ${source}: unknown rubricId "${data.rubricId}"`);
+      continue;
+    }
+    seenIds.add(data.id);
+    cases.push(data);
+  }
+
+  return cases.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const caseLibrary = loadCaseLibrary();
@@ -0,0 +1,146 @@
+import { Rubric, SessionBundle, ViolationCategory } from '../types';
+import { ScoredAttempt, groupAttemptsByCase } from './progressAnalytics';
+import { buildScoreComparison } from './scoreAudit';
+
+const mean = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Counts per whole score on the rubric scale; fractional overall scores are rounded to the nearest point.
+export const getScoreDistribution = (scores: number[], rubric: Rubric): { score: number; count: number }[] => {
+  const distribution: { score: number; count: number }[] = [];
+  for (let score = rubric.scale.min; score <= rubric.scale.max; score++) {
+    distribution.push({ score, count: scores.filter(value => Math.round(value) === score).length });
+  }
+  return distribution;
+};
+
+export interface CategoryStats {
+  categoryId: string;
+  name: string;
+  mean: number | null;
+  distribution: { score: number; count: number }[];
+}
+
+export interface StationStats {
+  caseId: string;
+  caseTitle: string;
+  rubric: Rubric;
+  attempts: number;
+  meanOverall: number | null;
+  passRate: number;
+  overallDistribution: { score: number; count: number }[];
+  categories: CategoryStats[];
+}
+
+// Stations are sorted hardest first (lowest pass rate), which is what faculty review first.
+export const buildStationStats = (attempts: ScoredAttempt[]): StationStats[] =>
+  [...groupAttemptsByCase(attempts).values()]
+    .map(caseAttempts => {
+      // A station may have been re-marked against a newer rubric; use the one from its latest attempt.
+      const rubric = caseAttempts[caseAttempts.length - 1].rubric;
+      const marked = caseAttempts.filter(attempt => attempt.rubric.id === rubric.id);
+      const overall = marked.map(attempt => attempt.score.overallScore);
+      return {
+        caseId: caseAttempts[0].caseId,
+        caseTitle: caseAttempts[0].caseTitle,
+        rubric,
+        attempts: marked.length,
+        meanOverall: mean(overall),
+        passRate: marked.filter(attempt => attempt.score.passed).length / marked.length,
+        overallDistribution: getScoreDistribution(overall, rubric),
+        categories: rubric.categories.map(category => {
+          const scores = marked.flatMap(attempt => attempt.score.categories[category.id] ? [attempt.score.categories[category.id].score] : []);
+          return { categoryId: category.id, name: category.name, mean: mean(scores), distribution: getScoreDistribution(scores, rubric) };
+        }),
+      };
+    })
+    .sort((a, b) => a.passRate - b.passRate);
+
+export interface ChecklistHitRate {
+  caseId: string;
+  caseTitle: string;
+  itemId: string;
+  label: string;
+  covered: number;
+  attempts: number;
+}
+
+export const getChecklistHitRates = (attempts: ScoredAttempt[]): ChecklistHitRate[] => {
+  const items = new Map<string, ChecklistHitRate>();
+  attempts.forEach(attempt => {
+    (attempt.score.checklist ?? []).forEach(result => {
+      const key = `${attempt.caseId}:${result.itemId}`;
+      const item = items.get(key) ?? { caseId: attempt.caseId, caseTitle: attempt.caseTitle, itemId: result.itemId, label: result.label, covered: 0, attempts: 0 };
+      item.attempts += 1;
+      if (result.covered) item.covered += 1;
+      items.set(key, item);
+    });
+  });
+  return [...items.values()].sort((a, b) => a.caseTitle.localeCompare(b.caseTitle) || a.covered / a.attempts - b.covered / b.attempts);
+};
+
+export interface ProctoringFlagRate {
+  category: ViolationCategory;
+  // Sessions with at least one incident of this type.
+  flaggedSessions: number;
+  incidents: number;
+  confirmed: number;
+  dismissed: number;
+}
+
+// Covers every bundle, scored or not; terminated exams are often the ones that never reached scoring.
+export const getProctoringFlagRates = (bundles: SessionBundle[]): ProctoringFlagRate[] => {
+  const rates = new Map<ViolationCategory, ProctoringFlagRate>();
+  bundles.forEach(({ session }) => {
+    const seen = new Set<ViolationCategory>();
+    session.incidents.forEach(incident => {
+      const rate = rates.get(incident.category) ?? { category: incident.category, flaggedSessions: 0, incidents: 0, confirmed: 0, dismissed: 0 };
+      rate.incidents += 1;
+      if (incident.review === 'confirmed') rate.confirmed += 1;
+      if (incident.review === 'dismissed') rate.dismissed += 1;
+      if (!seen.has(incident.category)) {
+        rate.flaggedSessions += 1;
+        seen.add(incident.category);
+      }
+      rates.set(incident.category, rate);
+    });
+  });
+  return [...rates.values()].sort((a, b) => b.flaggedSessions - a.flaggedSessions);
+};
+
+export interface ScoreDivergence {
+  rubricId: string;
+  categoryId: string;
+  name: string;
+  // Signed-off scorecards only; unverified ones have no human score to compare with.
+  verifiedSessions: number;
+  changedByExaminer: number;
+  meanAbsoluteDifference: number | null;
+  // Positive when examiners mark higher than the AI.
+  meanHumanMinusAi: number | null;
+}
+
+export const getAiHumanDivergence = (bundles: SessionBundle[]): ScoreDivergence[] => {
+  const pairs = new Map<string, { rubricId: string; categoryId: string; name: string; differences: number[] }>();
+  bundles.forEach(({ session, rubric }) => {
+    if (!session.scoreAudit?.signOff) return;
+    buildScoreComparison(rubric, session.scoreAudit).forEach(row => {
+      if (row.aiScore === null || row.humanScore === null) return;
+      const key = `${rubric.id}:${row.categoryId}`;
+      const entry = pairs.get(key) ?? { rubricId: rubric.id, categoryId: row.categoryId, name: row.name, differences: [] };
+      entry.differences.push(row.humanScore - row.aiScore);
+      pairs.set(key, entry);
+    });
+  });
+  return [...pairs.values()]
+    .map(entry => ({
+      rubricId: entry.rubricId,
+      categoryId: entry.categoryId,
+      name: entry.name,
+      verifiedSessions: entry.differences.length,
+      changedByExaminer: entry.differences.filter(difference => difference !== 0).length,
+      meanAbsoluteDifference: mean(entry.differences.map(Math.abs)),
+      meanHumanMinusAi: mean(entry.differences),
+    }))
+    .sort((a, b) => (b.meanAbsoluteDifference ?? 0) - (a.meanAbsoluteDifference ?? 0));
+};
@@ -0,0 +1,95 @@
+import { ExamPhase } from '../types';
+
+// Everything that can move an exam from one phase to another. Components report what happened;
+// only the machine decides whether that changes the phase.
+export type ExamEvent =
+  // Camera, microphone and introductions are ready for the candidate to press Ready.
+  | { type: 'ready' }
+  // A session interrupted by a refresh or crash picks up in the phase it was stored in.
+  | { type: 'resume'; phase: 'ready' | 'feedback' | 'q&a' }
+  | { type: 'start' }
+  | { type: 'silence-timeout' }
+  | { type: 'connection-lost' }
+  | { type: 'feedback-done' }
+  // The candidate pressed End Exam.
+  | { type: 'student-ended' }
+  // The examiner Q&A session closed on its own.
+  | { type: 'qa-ended' }
+  // Proctoring terminated or locked the exam.
+  | { type: 'blocked' };
+
+export type ExamEventType = ExamEvent['type'];
+
+// A fixed target phase, or one read from the event; each handler only ever receives its own event type.
+type Transition<K extends ExamEventType> = ExamPhase | ((event: Extract<ExamEvent, { type: K }>) => ExamPhase);
+type PhaseTransitions = { [K in ExamEventType]?: Transition<K> };
+
+// The legal transitions out of each phase. A lost patient connection keeps the station in progress
+// while the patient session is reopened; anything not listed here is ignored.
+const transitions: Record<ExamPhase, PhaseTransitions> = {
+  'initializing': {
+    'ready': 'ready',
+    'resume': event => event.phase,
+    'blocked': 'ended',
+  },
+  'ready': {
+    'start': 'in-progress',
+    'blocked': 'ended',
+  },
+  'in-progress': {
+    'silence-timeout': 'feedback',
+    'connection-lost': 'in-progress',
+    'blocked': 'ended',
+  },
+  'feedback': {
+    'feedback-done': 'q&a',
+    'blocked': 'ended',
+  },
+  'q&a': {
+    'student-ended': 'ended',
+    'qa-ended': 'ended',
+    'blocked': 'ended',
+  },
+  'ended': {},
+};
+
+// The phase an event leads to, or null if the event is not allowed in the current phase.
+const getTransition = <K extends ExamEventType>(phase: ExamPhase, type: K): Transition<K> | undefined => transitions[phase][type];
+
+export const getNextPhase = (phase: ExamPhase, event: ExamEvent): ExamPhase | null => {
+  const target = getTransition(phase, event.type);
+  if (target === undefined) return null;
+  return typeof target === 'function' ? target(event) : target;
+};
+
+export interface ExamStateMachine {
+  getPhase: () => ExamPhase;
+  // Applies the event if it is allowed in the current phase and returns whether it was.
+  send: (event: ExamEvent) => boolean;
+  // Listeners are called on every phase change; the returned function unsubscribes.
+  subscribe: (listener: (phase: ExamPhase) => void) => () => void;
+}
+
+export const createExamStateMachine = (initialPhase: ExamPhase = 'initializing'): ExamStateMachine => {
+  let phase = initialPhase;
+  const listeners = new Set<(phase: ExamPhase) => void>();
+
+  const send = (event: ExamEvent) => {
+    const next = getNextPhase(phase, event);
+    if (next === null) return false;
+    if (next !== phase) {
+      phase = next;
+      listeners.forEach(listener => listener(phase));
+    }
+    return true;
+  };
+
+  const subscribe = (listener: (phase: ExamPhase) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { getPhase: () => phase, send, subscribe };
+};
@@ -1,7 +1,32 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ProctoringResult, TranscriptEntry, ScoreData } from '../types';
+import { GoogleGenAI, Type, Modality, LiveConnectConfig, LiveServerMessage } from "@google/genai";
+import { ProctoringResult, AudioProctoringResult, FrameViolationType, AudioViolationType, IdentityMatchResult, TranscriptEntry, ScoringResult, ClinicalCase, VoiceName, ChecklistItem, ChecklistItemResult, Rubric, RubricLevel } from '../types';
+import { validateScorePayload } from './scoring';
+import { isBoolean, isNumber, isRecord, isString } from './validation';
+import { formatTimestamp, formatTranscriptLine, getStationDurationMs } from './transcriptTiming';
+import { createBlob } from './audioUtils';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+import type { ExamAIProvider, IdentityReference, LiveSession, LiveSessionCallbacks } from './aiProvider';
 
-export const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+const models = {
+    fast: 'gemini-2.5-flash',
+    pro: 'gemini-2.5-pro',
+    tts: 'gemini-2.5-flash-preview-tts',
+    live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+// Created on first use, so importing this module never requires an API key.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => client ??= new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+
+// Structured responses follow the requested schema in practice, but are still narrowed from unknown before use.
+const parseJsonObject = (text: string): Record<string, unknown> | null => {
+    const parsed: unknown = JSON.parse(text.trim());
+    return isRecord(parsed) ? parsed : null;
+};
+
+const parseConfidence = (value: unknown): number | null => isNumber(value) ? Math.min(1, Math.max(0, value)) : null;
+
+const parseReason = (value: unknown): string => isString(value) ? value : '';
 
 const proctoringPrompt = `
 You are an advanced AI proctor for a secure online exam. Your task is to analyze the provided image of a student and determine if there is any suspicious behavior.
@@ -12,9 +37,11 @@ Check for the following potential cheating behaviors strictly:
 3.  **Unauthorized Objects**: Can you see any prohibited items like smartphones, textbooks, or notes? **Note: Standard headphones or earbuds are PERMITTED and should NOT be flagged as unauthorized objects.**
 4.  **Speaking**: Does it appear the student is talking or whispering to someone? (Note: The student is expected to speak as part of the exam, but you should flag if they seem to be speaking to someone off-camera).
 
-Based on your analysis, you must respond with a JSON object. The JSON object must conform to the provided schema. It should have two keys:
-- "isCheating": A boolean value. Set to 'true' if ANY suspicious behavior is detected, otherwise 'false'.
-- "reason": A brief, clear string explaining the detected behavior if "isCheating" is true. If this "isCheating" is false, this string MUST be "All clear".
+Based on your analysis, you must respond with a JSON object. The JSON object must conform to the provided schema. It should have four keys:
+- "status": "violation" if ANY suspicious behavior is detected, otherwise "clear".
+- "violationType": The most serious behavior detected: "absent", "multiple-people", "phone" (any unauthorized object), "off-camera-speech", or "none" if the status is "clear".
+- "confidence": A number from 0 to 1 expressing how confident you are in your verdict.
+- "reason": A brief, clear string explaining the detected behavior. If the status is "clear", this string MUST be "All clear".
 
 Examples of reasons:
 - "Student not present in the frame."
@@ -23,10 +50,12 @@ Examples of reasons:
 - "Student appears to be talking to someone off-camera."
 `;
 
+const frameViolationTypes: FrameViolationType[] = ['absent', 'multiple-people', 'phone', 'off-camera-speech'];
+
 export const analyzeStudentFrame = async (base64ImageData: string): Promise<ProctoringResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+    const response = await getClient().models.generateContent({
+      model: models.fast,
       contents: {
         parts: [
           { inlineData: { mimeType: 'image/jpeg', data: base64ImageData } },
@@ -38,121 +67,489 @@ export const analyzeStudentFrame = async (base64ImageData: string): Promise<Proc
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            isCheating: { type: Type.BOOLEAN, description: "Whether suspicious behavior is detected." },
+            status: { type: Type.STRING, enum: ['clear', 'violation'], description: "Whether suspicious behavior is detected." },
+            violationType: { type: Type.STRING, enum: [...frameViolationTypes, 'none'], description: "The most serious behavior detected, or 'none'." },
+            confidence: { type: Type.NUMBER, description: "Confidence in the verdict from 0 to 1." },
             reason: { type: Type.STRING, description: "Reason for the detection or 'All clear'." },
           },
-          required: ['isCheating', 'reason']
+          required: ['status', 'violationType', 'confidence', 'reason']
         }
       }
     });
 
-    const jsonString = response.text.trim();
-    const result: ProctoringResult = JSON.parse(jsonString);
-    return result;
+    const parsed = parseJsonObject(response.text);
+    const violationType = frameViolationTypes.find(type => type === parsed?.violationType) ?? null;
+    const confidence = parseConfidence(parsed?.confidence);
+
+    if (parsed?.status === 'clear') {
+      return { status: 'clear', violationType: null, confidence, reason: 'All clear' };
+    }
+    if (parsed?.status === 'violation' && violationType) {
+      return { status: 'violation', violationType, confidence, reason: parseReason(parsed.reason) };
+    }
+    console.error("Proctoring response did not match the expected shape:", parsed);
+    return { status: 'error', violationType: null, confidence: null, reason: "AI analysis returned an unexpected result." };
   } catch (error) {
     console.error("Error analyzing frame:", error);
-    // Return a non-cheating result to avoid penalizing for API errors, but provide feedback.
-    return { isCheating: false, reason: "AI analysis failed. Check console for details." };
+    // An error is reported as its own state so callers never mistake it for a clean frame.
+    return { status: 'error', violationType: null, confidence: null, reason: "AI analysis failed. Check console for details." };
   }
 };
 
 
-const detailedExaminerFeedbackPrompt = `You are a clinical exam proctor observing a simulated interaction between a medical student and a standardized patient. The interaction phase is now over. Your role is to provide comprehensive, constructive feedback to the student based on their performance.
+const identityMatchPrompt = `
+You are verifying the identity of a candidate in a remote clinical exam. The first image is {reference}. The second image is a live webcam frame of the person sitting the exam.
 
-Below is the full transcript of the conversation:
----
+Decide whether the face in the second image belongs to the same person as the face in the first image. Judge facial features only; ignore differences in lighting, camera angle, glasses, hairstyle, headphones and image quality. If either image does not show a clear face, report a mismatch and say why.
+
+Respond with a JSON object conforming to the provided schema:
+- "status": "match" if both images show the same person, otherwise "mismatch".
+- "confidence": A number from 0 to 1 expressing how confident you are in your verdict.
+- "reason": A brief explanation, e.g. "Face matches the ID photo" or "No face visible on the ID card".
+`;
+
+const identityReferenceDescriptions: Record<IdentityReference, string> = {
+  'id-card': 'a photo of the candidate holding up their official photo ID card; compare against the photo printed on the card',
+  'enrolled-face': 'the reference face image captured when the candidate enrolled for this exam',
+};
+
+// Compares a live frame against either the candidate's ID card or the face enrolled in the Lobby.
+export const compareFaces = async (
+  referenceBase64: string,
+  candidateBase64: string,
+  reference: IdentityReference
+): Promise<IdentityMatchResult> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model: models.fast,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: referenceBase64 } },
+          { inlineData: { mimeType: 'image/jpeg', data: candidateBase64 } },
+          { text: identityMatchPrompt.replace('{reference}', identityReferenceDescriptions[reference]) }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            status: { type: Type.STRING, enum: ['match', 'mismatch'], description: "Whether both images show the same person." },
+            confidence: { type: Type.NUMBER, description: "Confidence in the verdict from 0 to 1." },
+            reason: { type: Type.STRING, description: "Brief explanation of the verdict." },
+          },
+          required: ['status', 'confidence', 'reason']
+        }
+      }
+    });
+
+    const parsed = parseJsonObject(response.text);
+    const confidence = parseConfidence(parsed?.confidence);
+    if (parsed?.status === 'match' || parsed?.status === 'mismatch') {
+      return { status: parsed.status, confidence, reason: parseReason(parsed.reason) };
+    }
+    console.error("Identity match response did not match the expected shape:", parsed);
+    return { status: 'error', confidence: null, reason: "Identity check returned an unexpected result." };
+  } catch (error) {
+    console.error("Error comparing faces:", error);
+    return { status: 'error', confidence: null, reason: "Identity check failed. Check console for details." };
+  }
+};
+
+const audioProctoringPrompt = `
+You are an AI proctor for a remote clinical exam. The attached audio was recorded from the candidate's microphone. The candidate is taking a history from a simulated patient; the patient is a synthetic voice and may be faintly audible through the candidate's speakers. Do NOT flag the candidate's own voice or the synthetic patient voice.
+
+Listen for the following:
+1.  **Second Voice**: Another real person speaking in the room.
+2.  **Whispering**: Anyone whispering, including the candidate whispering to someone.
+3.  **Prompting**: Someone feeding the candidate questions, answers or instructions.
+{context}
+Respond with a JSON object conforming to the provided schema:
+- "status": "violation" if any of the above is heard, otherwise "clear".
+- "violationType": "second-voice", "whispering", "prompting", or "none" if the status is "clear".
+- "confidence": A number from 0 to 1 expressing how confident you are in your verdict.
+- "reason": A brief description of what was heard, or "All clear".
+`;
+
+const audioViolationTypes: AudioViolationType[] = ['second-voice', 'whispering', 'prompting'];
+
+export const analyzeStudentAudio = async (base64Wav: string, duringPatientTurn: boolean): Promise<AudioProctoringResult> => {
+  const context = duringPatientTurn
+    ? '\nNote: this audio was flagged because speech was detected while the simulated patient was talking, when the candidate would normally be listening.\n'
+    : '';
+  try {
+    const response = await getClient().models.generateContent({
+      model: models.fast,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'audio/wav', data: base64Wav } },
+          { text: audioProctoringPrompt.replace('{context}', context) }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            status: { type: Type.STRING, enum: ['clear', 'violation'], description: "Whether suspicious audio is heard." },
+            violationType: { type: Type.STRING, enum: [...audioViolationTypes, 'none'], description: "What was heard, or 'none'." },
+            confidence: { type: Type.NUMBER, description: "Confidence in the verdict from 0 to 1." },
+            reason: { type: Type.STRING, description: "What was heard or 'All clear'." },
+          },
+          required: ['status', 'violationType', 'confidence', 'reason']
+        }
+      }
+    });
+
+    const parsed = parseJsonObject(response.text);
+    const violationType = audioViolationTypes.find(type => type === parsed?.violationType) ?? null;
+    const confidence = parseConfidence(parsed?.confidence);
+
+    if (parsed?.status === 'clear') {
+      return { status: 'clear', violationType: null, confidence, reason: 'All clear' };
+    }
+    if (parsed?.status === 'violation' && violationType) {
+      return { status: 'violation', violationType, confidence, reason: parseReason(parsed.reason) };
+    }
+    console.error("Audio proctoring response did not match the expected shape:", parsed);
+    return { status: 'error', violationType: null, confidence: null, reason: "Audio analysis returned an unexpected result." };
+  } catch (error) {
+    console.error("Error analyzing audio:", error);
+    return { status: 'error', violationType: null, confidence: null, reason: "Audio analysis failed. Check console for details." };
+  }
+};
+
+const checklistEvaluationPrompt = `You are a clinical exam marker. Below is a numbered transcript of a medical student taking a history from a standardized patient, followed by a checklist of items the student was expected to ask about. Each turn shows its start time in minutes:seconds from the start of the station.
+
+--- TRANSCRIPT ---
 {transcript}
+--- END TRANSCRIPT ---
+
+--- CHECKLIST ---
+{checklist}
+--- END CHECKLIST ---
+
+For each checklist item, decide whether the student covered it by asking about it (or by the patient volunteering it in direct response to a student question). Only credit items the student actually elicited.
+
+Respond with a JSON object conforming to the provided schema. It must contain one entry in "items" for every checklist item, with:
+- "itemId": the id of the checklist item.
+- "covered": true if the item was covered, otherwise false.
+- "turnIndex": the number of the Student turn that covered the item, or -1 if it was not covered.
+`;
+
+interface ChecklistVerdict {
+    itemId: string;
+    covered: boolean;
+    turnIndex: number;
+}
+
+const isChecklistVerdict = (value: unknown): value is ChecklistVerdict =>
+    isRecord(value) && isString(value.itemId) && isBoolean(value.covered) && isNumber(value.turnIndex);
+
+// Resolves to null when the checklist could not be evaluated, so an outage never reads as a student who missed every item.
+export const evaluateChecklist = async (
+    transcript: TranscriptEntry[],
+    checklist: ChecklistItem[],
+): Promise<ChecklistItemResult[] | null> => {
+    if (checklist.length === 0 || transcript.length === 0) {
+        return checklist.map(item => ({ itemId: item.id, label: item.label, covered: false, turnIndex: null, evidence: [] }));
+    }
+
+    const numberedTranscript = transcript.map(formatTranscriptLine).join('\n');
+    const formattedChecklist = checklist.map(item => `- ${item.id}: ${item.label}`).join('\n');
+    const prompt = checklistEvaluationPrompt
+        .replace('{transcript}', numberedTranscript)
+        .replace('{checklist}', formattedChecklist);
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: models.fast,
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        items: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    itemId: { type: Type.STRING, description: "The checklist item id." },
+                                    covered: { type: Type.BOOLEAN, description: "Whether the student covered the item." },
+                                    turnIndex: { type: Type.INTEGER, description: "Number of the Student turn that covered the item, or -1." },
+                                },
+                                required: ['itemId', 'covered', 'turnIndex']
+                            }
+                        }
+                    },
+                    required: ['items']
+                }
+            }
+        });
+
+        const parsed = parseJsonObject(response.text);
+        const verdicts = parsed?.items;
+        if (!Array.isArray(verdicts) || !verdicts.every(isChecklistVerdict)) throw new Error('The checklist response has no valid "items" array.');
+        return checklist.map(item => {
+            const verdict = verdicts.find(v => v.itemId === item.id);
+            // Only trust a turn reference that points at something the student actually said.
+            const isStudentTurn = verdict !== undefined && Number.isInteger(verdict.turnIndex) && transcript[verdict.turnIndex]?.role === 'Student';
+            const turnIndex = isStudentTurn ? verdict.turnIndex : null;
+            const covered = Boolean(verdict?.covered) && turnIndex !== null;
+            if (!covered) return { itemId: item.id, label: item.label, covered, turnIndex: null, evidence: [] };
+            const evidence = transcript[turnIndex + 1]?.role === 'SP' ? [turnIndex, turnIndex + 1] : [turnIndex];
+            return { itemId: item.id, label: item.label, covered, turnIndex, evidence };
+        });
+    } catch (error) {
+        console.error("Error evaluating checklist:", error);
+        return null;
+    }
+};
+
+const formatRubricLevels = (levels: RubricLevel[]): string =>
+    [...levels].sort((a, b) => b.score - a.score).map(level => `- ${level.score}: ${level.label} - ${level.descriptor}`).join('\n');
+
+export const getDetailedExaminerFeedbackPrompt = (transcript: TranscriptEntry[], rubric: Rubric): string => {
+    const sections = rubric.categories
+        .map((category, i) => `${i + 1}.  **${category.name}:** ${category.description}`)
+        .join('\n');
+
+    return `You are a clinical exam proctor observing a simulated interaction between a medical student and a standardized patient. The interaction phase is now over. Your role is to provide comprehensive, constructive feedback to the student based on their performance.
+
+Below is the full transcript of the conversation. Each turn shows its start time in minutes:seconds from the start of the station, which lasted ${formatTimestamp(getStationDurationMs(transcript))}:
+---
+${transcript.map(t => formatTranscriptLine(t)).join('\n')}
 ---
 
 Based on this transcript, provide detailed feedback on the student's performance. Structure your feedback into the following sections:
-1.  **Opening and Rapport:** How well did the student initiate the conversation and build a connection with the patient?
-2.  **History Taking:** Evaluate the student's questioning technique. Did they use a mix of open and closed-ended questions? Was their approach logical? Did they explore all relevant aspects of the chief complaint?
-3.  **Communication Skills:** Comment on the student's empathy, clarity, and overall professionalism.
-4.  **Overall Summary and Suggestions:** Provide a summary of their strengths and offer specific, actionable suggestions for improvement.
+${sections}
+${rubric.categories.length + 1}.  **Overall Summary and Suggestions:** Provide a summary of their strengths and offer specific, actionable suggestions for improvement.
 
 Your response should be formatted for clarity and spoken aloud. Start with "Alright, let's review your performance."
+`;
+};
 
-After providing the full text-based feedback, you MUST provide a structured JSON object containing a quantitative assessment. This JSON object must be enclosed between "SCORE_JSON_START" and "SCORE_JSON_END" tags.
+export const getScoringPrompt = (transcript: TranscriptEntry[], rubric: Rubric): string => {
+    const { min, max } = rubric.scale;
+    const categories = rubric.categories
+        .map(category => `- "${category.id}" (${category.name}, weight ${category.weight}): ${category.description}`)
+        .join('\n');
+    const categorySpecificLevels = rubric.categories
+        .filter(category => category.levels && category.levels.length > 0)
+        .map(category => `\nLevels for ${category.name}:\n${formatRubricLevels(category.levels!)}`)
+        .join('\n');
 
-The JSON object should follow this structure:
-{
-  "rapport": { "score": <1-5>, "justification": "<brief reasoning>" },
-  "historyTaking": { "score": <1-5>, "justification": "<brief reasoning>" },
-  "communication": { "score": <1-5>, "justification": "<brief reasoning>" },
-  "overallScore": <average score, 1 decimal place>
-}
+    return `You are a clinical exam marker. Score the medical student's performance in the numbered transcript below against the rubric. Each turn shows its start time in minutes:seconds from the start of the station, so criteria about timing can be judged; the station lasted ${formatTimestamp(getStationDurationMs(transcript))}.
+
+--- TRANSCRIPT ---
+${transcript.map(formatTranscriptLine).join('\n')}
+--- END TRANSCRIPT ---
+
+Rubric categories:
+${categories}
+
+Scoring Rubric (${min}-${max} scale, whole numbers only):
+${formatRubricLevels(rubric.levels)}
+${categorySpecificLevels}
 
-Scoring Rubric (1-5 scale):
-- 5: Excellent - Demonstrates all criteria flawlessly.
-- 4: Good - Demonstrates most criteria well with minor room for improvement.
-- 3: Competent - Demonstrates foundational skills but has clear areas for improvement.
-- 2: Needs Improvement - Misses key criteria or makes significant errors.
-- 1: Unsatisfactory - Fails to demonstrate basic competency.
+Respond with a JSON object conforming to the provided schema. For every category give a "score", a brief "justification" and "evidence": the numbers of the transcript turns that support the justification. "overallScore" is the weighted average of the category scores to 1 decimal place.
 `;
+};
+
+const buildScoreResponseSchema = (rubric: Rubric) => {
+    const categoryProperties: Record<string, object> = {};
+    for (const category of rubric.categories) {
+        categoryProperties[category.id] = {
+            type: Type.OBJECT,
+            description: category.name,
+            properties: {
+                score: { type: Type.INTEGER, description: `Score from ${rubric.scale.min} to ${rubric.scale.max}.` },
+                justification: { type: Type.STRING, description: "Brief reasoning for the score." },
+                evidence: {
+                    type: Type.ARRAY,
+                    items: { type: Type.INTEGER },
+                    description: "Numbers of the transcript turns that support the justification.",
+                },
+            },
+            required: ['score', 'justification', 'evidence'],
+        };
+    }
+    return {
+        type: Type.OBJECT,
+        properties: {
+            categories: {
+                type: Type.OBJECT,
+                properties: categoryProperties,
+                required: rubric.categories.map(category => category.id),
+            },
+            overallScore: { type: Type.NUMBER, description: "Weighted average of the category scores, 1 decimal place." },
+        },
+        required: ['categories', 'overallScore'],
+    };
+};
+
+const MAX_SCORING_ATTEMPTS = 3;
+
+// Requests structured scores, validating each response and feeding validation errors back to the model on retry.
+export const generateRubricScores = async (transcript: TranscriptEntry[], rubric: Rubric): Promise<ScoringResult> => {
+    const basePrompt = getScoringPrompt(transcript, rubric);
+    const responseSchema = buildScoreResponseSchema(rubric);
+    let repairNote = '';
+    let lastError = 'Scoring was not attempted.';
+
+    for (let attempt = 1; attempt <= MAX_SCORING_ATTEMPTS; attempt++) {
+        try {
+            const response = await getClient().models.generateContent({
+                model: models.pro,
+                contents: basePrompt + repairNote,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema,
+                },
+            });
+
+            const responseText = (response.text ?? '').trim();
+            let payload: unknown;
+            try {
+                payload = JSON.parse(responseText);
+            } catch (e) {
+                lastError = 'The scoring response was not valid JSON.';
+                repairNote = `\nYour previous response could not be parsed as JSON:\n${responseText}\nRespond again with valid JSON only.\n`;
+                console.error(`Scoring attempt ${attempt} returned malformed JSON`, e);
+                continue;
+            }
+
+            const validation = validateScorePayload(rubric, payload, transcript.length);
+            if (validation.scoreData) {
+                return { scoreData: validation.scoreData, error: null, checklistError: null, attempts: attempt };
+            }
+
+            lastError = `The scoring response was invalid: ${validation.errors.join(' ')}`;
+            repairNote = `\nYour previous response was rejected for these reasons:\n${validation.errors.map(e => `- ${e}`).join('\n')}\nCorrect these problems in your new response.\n`;
+            console.error(`Scoring attempt ${attempt} failed validation`, validation.errors);
+        } catch (error) {
+            lastError = 'The scoring service could not be reached.';
+            console.error(`Scoring attempt ${attempt} failed:`, error);
+            await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+        }
+    }
+
+    return { scoreData: null, error: lastError, checklistError: null, attempts: MAX_SCORING_ATTEMPTS };
+};
+
+// Scores a finished station: rubric scores and checklist coverage are requested in parallel. A failed checklist does not
+// cost the candidate their rubric scores; the scorecard is returned without a checklist and the checklist error alongside.
+export const scoreTranscript = async (
+    transcript: TranscriptEntry[],
+    clinicalCase: ClinicalCase,
+    rubric: Rubric,
+): Promise<ScoringResult> => {
+    if (transcript.filter(t => t.role === 'Student').length === 0) {
+        return { scoreData: null, error: 'The interaction was too brief to be scored.', checklistError: null, attempts: 0 };
+    }
+
+    const [result, checklist] = await Promise.all([
+        generateRubricScores(transcript, rubric),
+        evaluateChecklist(transcript, clinicalCase.checklist),
+    ]);
+    if (!result.scoreData) return result;
+    if (!checklist) {
+        return { ...result, checklistError: 'The history checklist could not be evaluated.' };
+    }
+    result.scoreData.checklist = checklist;
+    return result;
+};
 
 export const streamDetailedExaminerFeedback = async (
     transcript: TranscriptEntry[],
+    clinicalCase: ClinicalCase,
+    rubric: Rubric,
     onChunk: (textChunk: string) => void,
-): Promise<{ feedbackText: string; scoreData: ScoreData | null; }> => {
+): Promise<{ feedbackText: string; scoring: ScoringResult; }> => {
     if (transcript.length < 2) {
         const shortFeedback = "The interaction was too brief to provide detailed feedback.";
         onChunk(shortFeedback);
-        return { feedbackText: shortFeedback, scoreData: null };
+        return { feedbackText: shortFeedback, scoring: { scoreData: null, error: 'The interaction was too brief to be scored.', checklistError: null, attempts: 0 } };
     }
 
-    const formattedTranscript = transcript.map(t => `${t.role}: ${t.text}`).join('\n');
-    const promptWithTranscript = detailedExaminerFeedbackPrompt.replace('{transcript}', formattedTranscript);
-    
-    let fullResponseText = '';
-    let feedbackSoFar = '';
-    const scoreStartTag = 'SCORE_JSON_START';
+    // Scoring is a separate structured call, so it runs while the narrative feedback streams.
+    const scoringPromise = scoreTranscript(transcript, clinicalCase, rubric);
+
+    const promptWithTranscript = getDetailedExaminerFeedbackPrompt(transcript, rubric);
+    let feedbackText = '';
 
     try {
-        const responseStream = await ai.models.generateContentStream({
-            model: 'gemini-2.5-pro',
+        const responseStream = await getClient().models.generateContentStream({
+            model: models.pro,
             contents: promptWithTranscript,
         });
 
         for await (const chunk of responseStream) {
             const text = chunk.text;
             if (text) {
-                fullResponseText += text;
-                
-                if (fullResponseText.includes(scoreStartTag)) {
-                    const feedbackPart = fullResponseText.split(scoreStartTag)[0];
-                    const newChunkForUI = feedbackPart.substring(feedbackSoFar.length);
-                    if (newChunkForUI) {
-                        onChunk(newChunkForUI);
-                    }
-                    feedbackSoFar = feedbackPart;
-                } else {
-                    onChunk(text);
-                    feedbackSoFar += text;
-                }
-            }
-        }
-
-        const scoreRegex = /SCORE_JSON_START([\s\S]*?)SCORE_JSON_END/;
-        const match = fullResponseText.match(scoreRegex);
-        
-        let scoreData: ScoreData | null = null;
-        let feedbackText = feedbackSoFar.trim();
-
-        if (match && match[1]) {
-            try {
-                scoreData = JSON.parse(match[1].trim());
-            } catch (e) {
-                console.error("Failed to parse score JSON", e);
+                onChunk(text);
+                feedbackText += text;
             }
         }
-        
-        return { feedbackText, scoreData };
     } catch (error) {
         console.error("Error streaming detailed examiner feedback:", error);
         const errorMsg = "Could not retrieve detailed examiner feedback due to an error.";
         onChunk(errorMsg);
-        return { feedbackText: errorMsg, scoreData: null };
+        feedbackText = errorMsg;
     }
+
+    return { feedbackText: feedbackText.trim(), scoring: await scoringPromise };
+};
+
+const formatList = (items: string[]): string => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None reported.';
+
+// Prior turns are included when the Live session is recreated mid-station, after a dropped connection or a page reload.
+const getConversationSoFar = (transcript: TranscriptEntry[]): string => {
+    const encounter = transcript.filter(t => t.role !== 'Examiner');
+    if (encounter.length === 0) return '';
+    return `
+**Conversation So Far:**
+The session was interrupted and has now resumed. This is what has already been said:
+${encounter.map(t => `${t.role === 'SP' ? 'You' : 'Student'}: ${t.text}`).join('\n')}
+
+Carry on from where the conversation left off. Do not greet the student again, and do not repeat information you have already given unless the student asks for it.
+`;
+};
+
+export const getPatientPrompt = (clinicalCase: ClinicalCase, transcript: TranscriptEntry[] = []): string => {
+    const { demographics } = clinicalCase;
+    return `
+You are a Standardized Patient in a clinical exam simulation named ${demographics.name}. A medical student is interacting with you. Your goal is to accurately portray the patient so the student can practice their history-taking skills.
+
+You have already greeted the student with "${clinicalCase.openingLine}"
+
+**Patient Profile:**
+- **Name:** ${demographics.name}
+- **Age:** ${demographics.age}
+- **Sex:** ${demographics.sex}
+- **Occupation:** ${demographics.occupation}
+- **Chief Complaint:** ${clinicalCase.chiefComplaint}
+
+**History of Present Illness (HPI):**
+${formatList(clinicalCase.historyOfPresentIllness)}
+
+**Past Medical History:**
+${formatList(clinicalCase.pastMedicalHistory)}
+
+**Medications:**
+${formatList(clinicalCase.medications)}
+
+**Social History:**
+${formatList(clinicalCase.socialHistory)}
+
+**Your Behavior:**
+${formatList(clinicalCase.behaviourRules)}
+- After stating your complaint, **crucially, do not volunteer information unless the student asks you directly.** 
+- For example, if they ask 'when did they start?' or 'can you describe the pain?', only then provide more details.
+- Keep your answers concise and conversational, based on the script.
+- When the student concludes the interview (e.g., by saying 'Thank you, we're done for today'), respond politely (e.g., 'Thank you, doctor.') and do not offer further information.
+${getConversationSoFar(transcript)}`;
 };
 
 export const getExaminerQAPrompt = (transcript: TranscriptEntry[], feedback: string): string => `You are an AI Examiner in a clinical simulation. You have just provided the following detailed feedback to a medical student based on their interaction with a standardized patient:
@@ -163,7 +560,7 @@ ${feedback}
 
 The full transcript of the student-patient interaction is below for your reference:
 --- TRANSCRIPT ---
-${transcript.map(t => `${t.role}: ${t.text}`).join('\n')}
+${transcript.map(t => formatTranscriptLine(t)).join('\n')}
 --- END TRANSCRIPT ---
 
 The student may now ask you questions to clarify the feedback. Your goal is to be helpful, encouraging, and provide specific examples from the transcript if asked. Keep your answers concise and focused on the student's questions.
@@ -172,10 +569,10 @@ This is the start of the Q&A session. Your first response should be: "Do you hav
 `;
 
 
-export const textToSpeech = async (text: string, voice: 'Zephyr' | 'Kore' = 'Zephyr'): Promise<string | null> => {
+export const textToSpeech = async (text: string, voice: VoiceName = 'Zephyr'): Promise<string | null> => {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
+        const response = await getClient().models.generateContent({
+            model: models.tts,
             contents: [{ parts: [{ text }] }],
             config: {
                 responseModalities: [Modality.AUDIO],
@@ -192,4 +589,52 @@ export const textToSpeech = async (text: string, voice: 'Zephyr' | 'Kore' = 'Zep
         console.error("Error in text-to-speech:", error);
         return null;
     }
-};
\ No newline at end of file
+};
+
+// Translates Live API messages into the provider callbacks, in the order the components relied on: transcription, turn end, audio.
+const connectLive = (config: LiveConnectConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession> =>
+    getClient().live.connect({
+        model: models.live,
+        config: { responseModalities: [Modality.AUDIO], ...config },
+        callbacks: {
+            onopen: callbacks.onOpen,
+            onmessage: (message: LiveServerMessage) => {
+                const content = message.serverContent;
+                if (!content) return;
+                if (content.inputTranscription?.text) callbacks.onInputTranscription?.(content.inputTranscription.text);
+                if (content.outputTranscription?.text) callbacks.onOutputTranscription?.(content.outputTranscription.text);
+                if (content.turnComplete) callbacks.onTurnComplete?.();
+                if (content.interrupted) callbacks.onInterrupted?.();
+                const audioData = content.modelTurn?.parts?.[0]?.inlineData?.data;
+                if (audioData) callbacks.onAudio?.(audioData);
+            },
+            onerror: callbacks.onError,
+            onclose: callbacks.onClose,
+        },
+    }).then(session => ({
+        sendAudio: (samples: Float32Array) => session.sendRealtimeInput({ media: createBlob(samples, CAPTURE_SAMPLE_RATE) }),
+        close: () => session.close(),
+    }));
+
+export const geminiProvider: ExamAIProvider = {
+    id: 'gemini',
+    analyzeFrame: analyzeStudentFrame,
+    compareFaces,
+    analyzeAudio: analyzeStudentAudio,
+    textToSpeech,
+    scoreTranscript,
+    streamExaminerFeedback: streamDetailedExaminerFeedback,
+    connectPatient: (clinicalCase, transcript, callbacks) => connectLive({
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: clinicalCase.voice } } },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction: getPatientPrompt(clinicalCase, transcript),
+    }, callbacks),
+    connectExaminerQA: (transcript, feedback, callbacks) => connectLive({
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction: getExaminerQAPrompt(transcript, feedback),
+    }, callbacks),
+    connectTranscriber: callbacks => connectLive({ inputAudioTranscription: {} }, callbacks),
+};
@@ -0,0 +1,12 @@
+// Downscales the frame currently on a canvas into a small JPEG data URL suitable for keeping as evidence.
+export function createThumbnail(source: HTMLCanvasElement, maxWidth: number = 320): string | null {
+  if (source.width === 0 || source.height === 0) return null;
+  const scale = Math.min(1, maxWidth / source.width);
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.round(source.width * scale);
+  thumbnail.height = Math.round(source.height * scale);
+  const context = thumbnail.getContext('2d');
+  if (!context) return null;
+  context.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL('image/jpeg', 0.7);
+}
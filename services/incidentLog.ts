@@ -0,0 +1,31 @@
+import { IncidentReviewStatus, ProctoringIncident, ProctoringPolicy, ViolationCategory, ViolationEvidence } from '../types';
+
+export const createIncident = (
+  policy: ProctoringPolicy,
+  category: ViolationCategory,
+  reason: string,
+  evidence: ViolationEvidence = {},
+): ProctoringIncident => ({
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  category,
+  severity: policy.severities[category],
+  confidence: evidence.confidence ?? null,
+  reason,
+  snapshot: evidence.snapshot ?? null,
+  audioClip: evidence.audioClip ?? null,
+  review: 'pending',
+  reviewedBy: null,
+  reviewedAt: null,
+});
+
+export const reviewIncident = (
+  incident: ProctoringIncident,
+  decision: Exclude<IncidentReviewStatus, 'pending'>,
+  reviewerId: string,
+): ProctoringIncident => {
+  if (!reviewerId.trim()) {
+    throw new Error('An invigilator ID is required to review an incident.');
+  }
+  return { ...incident, review: decision, reviewedBy: reviewerId.trim(), reviewedAt: new Date().toISOString() };
+};
@@ -0,0 +1,185 @@
+import { ChecklistItemResult, ClinicalCase, Rubric, ScoringResult, TranscriptEntry } from '../types';
+import { ExamAIProvider, LiveSession, LiveSessionCallbacks } from './aiProvider';
+import { encode } from './audioUtils';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+import { validateScorePayload } from './scoring';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+// Input louder than this RMS level counts as the candidate speaking.
+const SPEECH_RMS_THRESHOLD = 0.02;
+const MIN_SPEECH_MS = 250;
+const END_OF_TURN_SILENCE_MS = 800;
+const RESPONSE_DELAY_MS = 300;
+const SPEECH_MS_PER_WORD = 150;
+const MAX_SPEECH_MS = 6000;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const getSpeechDurationMs = (text: string): number =>
+  Math.min(text.split(/\s+/).filter(Boolean).length * SPEECH_MS_PER_WORD, MAX_SPEECH_MS);
+
+// Silent PCM roughly as long as the text would take to say, so speaking indicators and timings behave as with real audio.
+const silentSpeech = (text: string): string => {
+  const durationMs = getSpeechDurationMs(text);
+  return encode(new Uint8Array(new Int16Array(Math.round((durationMs / 1000) * OUTPUT_SAMPLE_RATE)).buffer));
+};
+
+interface ScriptedTurn {
+  input: string;
+  // Omitted for sessions that only transcribe, such as the microphone check.
+  output?: string;
+}
+
+const isSpeech = (samples: Float32Array): boolean =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length) >= SPEECH_RMS_THRESHOLD;
+
+// Calls onUtterance each time the candidate speaks and then falls silent, standing in for the Live API's turn detection.
+const createTurnDetector = (onUtterance: () => void) => {
+  let speechMs = 0;
+  let silenceMs = 0;
+  return (samples: Float32Array) => {
+    const durationMs = (samples.length / CAPTURE_SAMPLE_RATE) * 1000;
+    if (isSpeech(samples)) {
+      speechMs += durationMs;
+      silenceMs = 0;
+      return;
+    }
+    silenceMs += durationMs;
+    if (speechMs >= MIN_SPEECH_MS && silenceMs >= END_OF_TURN_SILENCE_MS) {
+      speechMs = 0;
+      onUtterance();
+    }
+  };
+};
+
+// A live session that replays nextTurn() for every detected utterance. Audio sent while a reply is being prepared
+// is ignored; speaking while the reply is still playing interrupts it, as with the Live API.
+const connectScripted = (callbacks: LiveSessionCallbacks, nextTurn: () => ScriptedTurn): Promise<LiveSession> => {
+  let isClosed = false;
+  let isReplying = false;
+  // When the last reply's audio will have finished playing, estimated from its length.
+  let replyEndsAt = 0;
+
+  const reply = async () => {
+    const turn = nextTurn();
+    isReplying = true;
+    callbacks.onInputTranscription?.(turn.input);
+    await wait(RESPONSE_DELAY_MS);
+    if (isClosed) return;
+    if (turn.output) {
+      callbacks.onOutputTranscription?.(turn.output);
+      callbacks.onAudio?.(silentSpeech(turn.output));
+      replyEndsAt = Date.now() + getSpeechDurationMs(turn.output);
+    }
+    callbacks.onTurnComplete?.();
+    isReplying = false;
+  };
+  const detectTurn = createTurnDetector(reply);
+
+  setTimeout(() => !isClosed && callbacks.onOpen(), 0);
+  return Promise.resolve({
+    sendAudio: samples => {
+      if (isClosed || isReplying) return;
+      if (Date.now() < replyEndsAt && isSpeech(samples)) {
+        replyEndsAt = 0;
+        callbacks.onInterrupted?.();
+      }
+      detectTurn(samples);
+    },
+    close: () => {
+      if (isClosed) return;
+      isClosed = true;
+      setTimeout(callbacks.onClose, 0);
+    },
+  });
+};
+
+// One question per checklist item, each answered with the next fact from the case, so a full run covers the checklist.
+const getPatientScript = (clinicalCase: ClinicalCase): ScriptedTurn[] => {
+  const facts = [
+    clinicalCase.chiefComplaint,
+    ...clinicalCase.historyOfPresentIllness,
+    ...clinicalCase.pastMedicalHistory,
+    ...clinicalCase.medications,
+    ...clinicalCase.socialHistory,
+  ];
+  return [
+    ...clinicalCase.checklist.map((item, i) => ({ input: `Can you tell me about the ${item.label.toLowerCase()}?`, output: facts[i % facts.length] })),
+    { input: "Thank you, we're done for today.", output: 'Thank you, doctor.' },
+  ];
+};
+
+const examinerQAScript: ScriptedTurn[] = [
+  { input: 'Could you give me an example of what I should have done differently?', output: 'Look at the categories you scored lowest in and the turns quoted as evidence; those are the moments to revisit.' },
+  { input: 'Thank you, that is all.', output: 'You are welcome. Good luck with your next station.' },
+];
+
+// Script turns are handed out in order; once the script runs out its last turn is repeated.
+const cycleScript = (script: ScriptedTurn[], startAt: number = 0) => {
+  let index = startAt;
+  return () => script[Math.min(index++, script.length - 1)];
+};
+
+const labelTerms = (label: string): string[] => label.toLowerCase().match(/[a-z]{4,}/g) ?? [];
+
+// An item is covered by the first student turn that mentions any significant word of its label.
+const evaluateChecklist = (transcript: TranscriptEntry[], clinicalCase: ClinicalCase): ChecklistItemResult[] =>
+  clinicalCase.checklist.map(item => {
+    const terms = labelTerms(item.label);
+    const turnIndex = transcript.findIndex(t => t.role === 'Student' && terms.some(term => t.text.toLowerCase().includes(term)));
+    if (turnIndex === -1) return { itemId: item.id, label: item.label, covered: false, turnIndex: null, evidence: [] };
+    const evidence = transcript[turnIndex + 1]?.role === 'SP' ? [turnIndex, turnIndex + 1] : [turnIndex];
+    return { itemId: item.id, label: item.label, covered: true, turnIndex, evidence };
+  });
+
+// Every category is marked at the pass threshold, citing the first student turn, and goes through the same validation as model output.
+const scoreTranscript = (transcript: TranscriptEntry[], clinicalCase: ClinicalCase, rubric: Rubric): ScoringResult => {
+  const firstStudentTurn = transcript.findIndex(t => t.role === 'Student');
+  if (firstStudentTurn === -1) {
+    return { scoreData: null, error: 'The interaction was too brief to be scored.', checklistError: null, attempts: 0 };
+  }
+  const score = Math.min(rubric.scale.max, Math.ceil(rubric.passThreshold));
+  const categories = Object.fromEntries(rubric.categories.map(category => [
+    category.id,
+    { score, justification: `Mock score for ${category.name}; no model assessed this transcript.`, evidence: [firstStudentTurn] },
+  ]));
+  const { scoreData, errors } = validateScorePayload(rubric, { categories }, transcript.length);
+  if (!scoreData) return { scoreData: null, error: `The mock scorecard was invalid: ${errors.join(' ')}`, checklistError: null, attempts: 1 };
+  scoreData.checklist = evaluateChecklist(transcript, clinicalCase);
+  return { scoreData, error: null, checklistError: null, attempts: 1 };
+};
+
+const FEEDBACK_CHUNK_DELAY_MS = 50;
+
+// A deterministic offline stand-in for Gemini, for demos, development and end-to-end tests without a network or API key.
+export const createMockProvider = (): ExamAIProvider => ({
+  id: 'mock',
+  analyzeFrame: async () => ({ status: 'clear', violationType: null, confidence: 1, reason: 'All clear' }),
+  compareFaces: async () => ({ status: 'match', confidence: 1, reason: 'Mock provider: faces are always treated as a match.' }),
+  analyzeAudio: async () => ({ status: 'clear', violationType: null, confidence: 1, reason: 'All clear' }),
+  textToSpeech: async text => silentSpeech(text),
+  scoreTranscript: async (transcript, clinicalCase, rubric) => scoreTranscript(transcript, clinicalCase, rubric),
+  streamExaminerFeedback: async (transcript, clinicalCase, rubric, onChunk) => {
+    if (transcript.length < 2) {
+      const shortFeedback = "The interaction was too brief to provide detailed feedback.";
+      onChunk(shortFeedback);
+      return { feedbackText: shortFeedback, scoring: { scoreData: null, error: 'The interaction was too brief to be scored.', checklistError: null, attempts: 0 } };
+    }
+    const scoring = scoreTranscript(transcript, clinicalCase, rubric);
+    const chunks = [
+      "Alright, let's review your performance.\n\n",
+      ...rubric.categories.map(category => `**${category.name}:** ${scoring.scoreData?.categories[category.id]?.justification ?? 'Not scored.'}\n\n`),
+      `**Overall Summary and Suggestions:** You completed ${transcript.filter(t => t.role === 'Student').length} turns with the patient. This feedback was generated by the mock provider.`,
+    ];
+    for (const chunk of chunks) {
+      await wait(FEEDBACK_CHUNK_DELAY_MS);
+      onChunk(chunk);
+    }
+    return { feedbackText: chunks.join('').trim(), scoring };
+  },
+  connectPatient: (clinicalCase, transcript, callbacks) =>
+    // A reconnect picks the script up after the questions already asked.
+    connectScripted(callbacks, cycleScript(getPatientScript(clinicalCase), transcript.filter(t => t.role === 'Student').length)),
+  connectExaminerQA: (_transcript, _feedback, callbacks) => connectScripted(callbacks, cycleScript(examinerQAScript)),
+  connectTranscriber: callbacks => connectScripted(callbacks, () => ({ input: 'Testing, one, two, three.' })),
+});
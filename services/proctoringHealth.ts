@@ -0,0 +1,79 @@
+import { ProctoringHealth, ProctoringPolicy } from '../types';
+
+export const createProctoringHealth = (): ProctoringHealth => ({
+  totalChecks: 0,
+  failedChecks: 0,
+  consecutiveFailures: 0,
+  failureStreakStartedAt: null,
+  isDegraded: false,
+  unproctoredIntervals: [],
+});
+
+export const getFailureRate = (health: ProctoringHealth): number =>
+  health.totalChecks === 0 ? 0 : health.failedChecks / health.totalChecks;
+
+const getOpenInterval = (health: ProctoringHealth) => {
+  const last = health.unproctoredIntervals[health.unproctoredIntervals.length - 1];
+  return last && last.end === null ? last : null;
+};
+
+// Folds one proctoring check outcome into the health record. Once a run of failures makes proctoring
+// degraded, an unproctored interval is opened, backdated to the first failure of the run.
+export const recordProctoringCheck = (
+  health: ProctoringHealth,
+  policy: ProctoringPolicy,
+  succeeded: boolean,
+  checkStartedAt: string,
+): ProctoringHealth => {
+  const totalChecks = health.totalChecks + 1;
+  const openInterval = getOpenInterval(health);
+
+  if (succeeded) {
+    return {
+      ...health,
+      totalChecks,
+      consecutiveFailures: 0,
+      failureStreakStartedAt: null,
+      isDegraded: false,
+      unproctoredIntervals: openInterval
+        ? [...health.unproctoredIntervals.slice(0, -1), { ...openInterval, end: checkStartedAt }]
+        : health.unproctoredIntervals,
+    };
+  }
+
+  const consecutiveFailures = health.consecutiveFailures + 1;
+  const failureStreakStartedAt = health.failureStreakStartedAt ?? checkStartedAt;
+  const isDegraded = consecutiveFailures >= policy.outage.consecutiveFailuresForDegraded;
+
+  let unproctoredIntervals = health.unproctoredIntervals;
+  if (openInterval) {
+    unproctoredIntervals = [...unproctoredIntervals.slice(0, -1), { ...openInterval, failedChecks: consecutiveFailures }];
+  } else if (isDegraded) {
+    unproctoredIntervals = [...unproctoredIntervals, { start: failureStreakStartedAt, end: null, failedChecks: consecutiveFailures, acknowledgedBy: null }];
+  }
+
+  return {
+    totalChecks,
+    failedChecks: health.failedChecks + 1,
+    consecutiveFailures,
+    failureStreakStartedAt,
+    isDegraded,
+    unproctoredIntervals,
+  };
+};
+
+export const acknowledgeOutage = (health: ProctoringHealth, invigilatorId: string): ProctoringHealth => {
+  const openInterval = getOpenInterval(health);
+  if (!openInterval) return health;
+  return {
+    ...health,
+    unproctoredIntervals: [...health.unproctoredIntervals.slice(0, -1), { ...openInterval, acknowledgedBy: invigilatorId.trim() }],
+  };
+};
+
+// Closes any ongoing outage, e.g. when the exam phase that is proctored ends.
+export const closeOpenInterval = (health: ProctoringHealth, endedAt: string): ProctoringHealth => {
+  const openInterval = getOpenInterval(health);
+  if (!openInterval) return health;
+  return { ...health, unproctoredIntervals: [...health.unproctoredIntervals.slice(0, -1), { ...openInterval, end: endedAt }] };
+};
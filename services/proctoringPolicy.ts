@@ -0,0 +1,131 @@
+import { ProctoringIncident, ProctoringPolicy, ViolationCategory, ViolationSeverity } from '../types';
+
+export const FORMATIVE_POLICY: ProctoringPolicy = {
+  id: 'formative',
+  name: 'Formative Practice',
+  severities: {
+    'absent': 'minor',
+    'multiple-people': 'minor',
+    'phone': 'minor',
+    'off-camera-speech': 'ignore',
+    'fullscreen-exit': 'ignore',
+    'tab-switch': 'minor',
+    'focus-loss': 'ignore',
+    'clipboard': 'minor',
+    'context-menu': 'ignore',
+    'devtools': 'minor',
+    'multiple-displays': 'ignore',
+    'second-voice': 'minor',
+    'whispering': 'ignore',
+    'prompting': 'minor',
+    'identity-mismatch': 'major',
+  },
+  examCheckIntervalMs: 15000,
+  lobbyCheckIntervalMs: 3000,
+  lobbyClearChecksRequired: 1,
+  confirmationsRequired: 3,
+  minConfidence: 0.8,
+  audioCheckIntervalMs: 60000,
+  identityCheckIntervalMs: 120000,
+  outage: {
+    consecutiveFailuresForDegraded: 3,
+    fallback: 'continue-flagged',
+  },
+  termination: {
+    maxWarnings: null,
+    maxPerSeverity: {},
+    maxPerCategory: {},
+  },
+};
+
+export const SUMMATIVE_POLICY: ProctoringPolicy = {
+  id: 'summative',
+  name: 'Summative OSCE',
+  severities: {
+    'absent': 'major',
+    'multiple-people': 'critical',
+    'phone': 'critical',
+    'off-camera-speech': 'major',
+    'fullscreen-exit': 'major',
+    'tab-switch': 'major',
+    'focus-loss': 'minor',
+    'clipboard': 'major',
+    'context-menu': 'minor',
+    // Detected from the window size alone, which a side panel can mimic, so it is a minor warning for an invigilator to review.
+    'devtools': 'minor',
+    'multiple-displays': 'major',
+    'second-voice': 'major',
+    'whispering': 'major',
+    'prompting': 'critical',
+    'identity-mismatch': 'critical',
+  },
+  examCheckIntervalMs: 7000,
+  lobbyCheckIntervalMs: 3000,
+  lobbyClearChecksRequired: 2,
+  confirmationsRequired: 1,
+  minConfidence: 0.6,
+  audioCheckIntervalMs: 20000,
+  identityCheckIntervalMs: 30000,
+  outage: {
+    consecutiveFailuresForDegraded: 2,
+    fallback: 'require-invigilator',
+  },
+  termination: {
+    maxWarnings: 5,
+    maxPerSeverity: { critical: 3 },
+    maxPerCategory: { 'fullscreen-exit': 2 },
+  },
+};
+
+export const proctoringPolicies: ProctoringPolicy[] = [FORMATIVE_POLICY, SUMMATIVE_POLICY];
+
+// The deployment fixes the policy at build time (PROCTORING_POLICY), since a candidate can edit any exam link.
+// Only development builds also accept ?policy=formative in the URL, for trying a station under another policy.
+export const getActiveProctoringPolicy = (search: string = window.location.search): ProctoringPolicy => {
+  const requested = (import.meta.env.DEV ? new URLSearchParams(search).get('policy') : null) ?? process.env.PROCTORING_POLICY;
+  return proctoringPolicies.find(p => p.id === requested) ?? SUMMATIVE_POLICY;
+};
+
+export const violationLabels: Record<ViolationCategory, string> = {
+  'absent': 'Candidate Absent',
+  'multiple-people': 'Multiple People',
+  'phone': 'Phone or Prohibited Object',
+  'off-camera-speech': 'Off-Camera Speech',
+  'fullscreen-exit': 'Fullscreen Exited',
+  'tab-switch': 'Tab Switch',
+  'focus-loss': 'Window Focus Lost',
+  'clipboard': 'Copy/Paste Attempt',
+  'context-menu': 'Context Menu Attempt',
+  'devtools': 'Developer Tools Open',
+  'multiple-displays': 'Additional Display',
+  'second-voice': 'Second Voice Heard',
+  'whispering': 'Whispering Heard',
+  'prompting': 'Prompting Voice Heard',
+  'identity-mismatch': 'Identity Mismatch',
+};
+
+export const countsAsWarning = (severity: ViolationSeverity): boolean => severity !== 'ignore';
+
+export const countWarnings = (incidents: ProctoringIncident[]): number =>
+  incidents.filter(incident => countsAsWarning(incident.severity)).length;
+
+// Returns the reason the exam must be terminated under the policy, or null if it may continue.
+export const getTerminationReason = (policy: ProctoringPolicy, incidents: ProctoringIncident[]): string | null => {
+  const counted = incidents.filter(incident => countsAsWarning(incident.severity));
+  const { maxWarnings, maxPerSeverity, maxPerCategory } = policy.termination;
+
+  for (const [category, limit] of Object.entries(maxPerCategory) as [ViolationCategory, number][]) {
+    if (counted.filter(incident => incident.category === category).length >= limit) {
+      return `Exam locked after ${limit} "${violationLabels[category]}" violations.`;
+    }
+  }
+  for (const [severity, limit] of Object.entries(maxPerSeverity) as [ViolationSeverity, number][]) {
+    if (counted.filter(incident => incident.severity === severity).length >= limit) {
+      return `Exam terminated after ${limit} ${severity} violations.`;
+    }
+  }
+  if (maxWarnings !== null && counted.length >= maxWarnings) {
+    return `Exam terminated after ${maxWarnings} warnings.`;
+  }
+  return null;
+};
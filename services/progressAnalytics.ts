@@ -0,0 +1,172 @@
+import { ClinicalCase, Rubric, ScoreData, SessionBundle, StoredSession } from '../types';
+import { getCurrentScore } from './scoreAudit';
+import { findRubric } from './rubricLibrary';
+
+// One scored sitting of a station, flattened so stored sessions and exported bundles can be analysed alike.
+export interface ScoredAttempt {
+  sessionId: string;
+  candidateId: string;
+  caseId: string;
+  caseTitle: string;
+  startedAt: string;
+  rubric: Rubric;
+  score: ScoreData;
+  isVerified: boolean;
+}
+
+// The mock provider marks every category at the pass mark, so its sessions say nothing about the candidate.
+export const isMockSession = (session: StoredSession): boolean => session.aiProviderId === 'mock';
+
+// Sessions that never reached scoring, or were marked by the mock provider, are left out, as are scorecards
+// whose rubric is no longer in the library; they cannot be plotted against any other rubric.
+export const toScoredAttempts = (sessions: StoredSession[], cases: ClinicalCase[]): ScoredAttempt[] =>
+  sessions
+    .filter(session => session.scoreAudit !== null && !isMockSession(session))
+    .flatMap(session => {
+      const score = getCurrentScore(session.scoreAudit!);
+      const rubric = findRubric(score.rubricId);
+      if (!rubric) {
+        console.error(`Leaving out session ${session.id}: rubric "${score.rubricId}" is not in the library.`);
+        return [];
+      }
+      return [{
+        sessionId: session.id,
+        candidateId: session.candidateIdentity.candidateId,
+        caseId: session.caseId,
+        caseTitle: cases.find(c => c.id === session.caseId)?.title ?? session.caseId,
+        startedAt: session.startedAt,
+        rubric,
+        score,
+        isVerified: session.scoreAudit!.signOff !== null,
+      }];
+    })
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+// Bundles carry their own case and rubric, so they can be analysed even if the library has since changed.
+export const bundlesToScoredAttempts = (bundles: SessionBundle[]): ScoredAttempt[] =>
+  bundles
+    .filter(bundle => bundle.session.scoreAudit !== null && !isMockSession(bundle.session))
+    .map(({ session, clinicalCase, rubric }) => ({
+      sessionId: session.id,
+      candidateId: session.candidateIdentity.candidateId,
+      caseId: clinicalCase.id,
+      caseTitle: clinicalCase.title,
+      startedAt: session.startedAt,
+      rubric,
+      score: getCurrentScore(session.scoreAudit!),
+      isVerified: session.scoreAudit!.signOff !== null,
+    }))
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+
+export const groupAttemptsByCase = (attempts: ScoredAttempt[]): Map<string, ScoredAttempt[]> => {
+  const groups = new Map<string, ScoredAttempt[]>();
+  attempts.forEach(attempt => groups.set(attempt.caseId, [...(groups.get(attempt.caseId) ?? []), attempt]));
+  return groups;
+};
+
+export interface CategoryTrend {
+  categoryId: string;
+  name: string;
+  points: { startedAt: string; caseTitle: string; score: number }[];
+  // Last score minus first score; null with fewer than two attempts.
+  change: number | null;
+}
+
+// Scores per category over time for every attempt marked against the given rubric.
+export const buildCategoryTrends = (attempts: ScoredAttempt[], rubric: Rubric): CategoryTrend[] => {
+  const marked = attempts.filter(attempt => attempt.rubric.id === rubric.id);
+  return rubric.categories.map(category => {
+    const points = marked
+      .filter(attempt => attempt.score.categories[category.id])
+      .map(attempt => ({ startedAt: attempt.startedAt, caseTitle: attempt.caseTitle, score: attempt.score.categories[category.id].score }));
+    const change = points.length >= 2 ? points[points.length - 1].score - points[0].score : null;
+    return { categoryId: category.id, name: category.name, points, change };
+  });
+};
+
+export interface RecurringWeakness {
+  rubricId: string;
+  categoryId: string;
+  name: string;
+  weakAttempts: number;
+  attempts: number;
+  // Words that keep coming up in the examiner's justifications for weak scores.
+  recurringTerms: string[];
+  latestJustification: string;
+}
+
+const stopWords = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'was', 'were', 'not', 'but', 'did', 'does', 'had', 'has', 'have', 'into',
+  'student', 'students', 'patient', 'patients', 'their', 'they', 'them', 'about', 'also', 'more', 'some', 'any', 'such',
+  'from', 'which', 'while', 'when', 'what', 'there', 'been', 'being', 'could', 'would', 'should', 'very', 'well', 'only',
+  'however', 'although', 'overall', 'demonstrated', 'showed', 'shown', 'other', 'these', 'those', 'than', 'then',
+]);
+
+const extractTerms = (text: string): Set<string> =>
+  new Set(text.toLowerCase().match(/[a-z][a-z-]{3,}/g)?.filter(word => !stopWords.has(word)) ?? []);
+
+// A category is weak in an attempt when it scored below the rubric's pass threshold.
+export const findRecurringWeaknesses = (attempts: ScoredAttempt[]): RecurringWeakness[] => {
+  const byCategory = new Map<string, { rubric: Rubric; categoryId: string; attempts: number; justifications: string[] }>();
+
+  attempts.forEach(attempt => {
+    attempt.rubric.categories.forEach(category => {
+      const result = attempt.score.categories[category.id];
+      if (!result) return;
+      const key = `${attempt.rubric.id}:${category.id}`;
+      const entry = byCategory.get(key) ?? { rubric: attempt.rubric, categoryId: category.id, attempts: 0, justifications: [] };
+      entry.attempts += 1;
+      if (result.score < attempt.rubric.passThreshold) entry.justifications.push(result.justification);
+      byCategory.set(key, entry);
+    });
+  });
+
+  return [...byCategory.values()]
+    .filter(entry => entry.justifications.length > 0)
+    .map(entry => {
+      const termCounts = new Map<string, number>();
+      entry.justifications.forEach(justification => {
+        extractTerms(justification).forEach(term => termCounts.set(term, (termCounts.get(term) ?? 0) + 1));
+      });
+      const recurringTerms = [...termCounts.entries()]
+        .filter(([, count]) => count >= 2)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 6)
+        .map(([term]) => term);
+      return {
+        rubricId: entry.rubric.id,
+        categoryId: entry.categoryId,
+        name: entry.rubric.categories.find(c => c.id === entry.categoryId)?.name ?? entry.categoryId,
+        weakAttempts: entry.justifications.length,
+        attempts: entry.attempts,
+        recurringTerms,
+        latestJustification: entry.justifications[entry.justifications.length - 1],
+      };
+    })
+    .sort((a, b) => b.weakAttempts / b.attempts - a.weakAttempts / a.attempts || b.weakAttempts - a.weakAttempts);
+};
+
+export interface MissedChecklistItem {
+  caseId: string;
+  caseTitle: string;
+  itemId: string;
+  label: string;
+  missed: number;
+  attempts: number;
+}
+
+export const getMostMissedChecklistItems = (attempts: ScoredAttempt[]): MissedChecklistItem[] => {
+  const items = new Map<string, MissedChecklistItem>();
+  attempts.forEach(attempt => {
+    (attempt.score.checklist ?? []).forEach(result => {
+      const key = `${attempt.caseId}:${result.itemId}`;
+      const item = items.get(key) ?? { caseId: attempt.caseId, caseTitle: attempt.caseTitle, itemId: result.itemId, label: result.label, missed: 0, attempts: 0 };
+      item.attempts += 1;
+      if (!result.covered) item.missed += 1;
+      items.set(key, item);
+    });
+  });
+  return [...items.values()]
+    .filter(item => item.missed > 0)
+    .sort((a, b) => b.missed / b.attempts - a.missed / a.attempts || b.missed - a.missed);
+};
@@ -0,0 +1,60 @@
+/// <reference types="vite/client" />
+import { Rubric, ClinicalCase } from '../types';
+import { isArrayOf, isNonEmptyString, isNumber, isRecord, isString } from './validation';
+
+// Rubrics live alongside cases as JSON so stations can be marked differently without code changes.
+const rubricModules = import.meta.glob<unknown>('../rubrics/*.json', { eager: true, import: 'default' });
+
+export const isValidRubric = (data: unknown, source: string): data is Rubric => {
+  const { id, name, scale, levels, categories, passThreshold } = isRecord(data) ? data : {};
+  const problems: string[] = [];
+  if (!isNonEmptyString(id)) problems.push('id');
+  if (!isString(name)) problems.push('name');
+  const validScale = isRecord(scale) && isNumber(scale.min) && isNumber(scale.max) && scale.min < scale.max ? { min: scale.min, max: scale.max } : null;
+  if (!validScale) problems.push('scale');
+
+  // Without a valid scale there is nothing to check scores against, and the scale is already reported.
+  const isOnScale = (value: unknown): value is number =>
+    isNumber(value) && (!validScale || (value >= validScale.min && value <= validScale.max));
+  const isLevel = (level: unknown) =>
+    isRecord(level) && isOnScale(level.score) && Number.isInteger(level.score) && isString(level.label) && isString(level.descriptor);
+  if (!isArrayOf(levels, isLevel)) problems.push('levels');
+  const isCategory = (c: unknown) =>
+    isRecord(c) && isString(c.id) && isString(c.name) && isNumber(c.weight) && c.weight > 0 && (c.levels === undefined || isArrayOf(c.levels, isLevel));
+  if (!isArrayOf(categories, isCategory) || categories.length === 0) problems.push('categories');
+  if (!isOnScale(passThreshold)) problems.push('passThreshold');
+
+  if (problems.length > 0) {
+    console.error(`Skipping rubric ${source}: missing or invalid ${problems.join(', ')}`);
+    return false;
+  }
+  return true;
+};
+
+export const loadRubricLibrary = (): Rubric[] => {
+  const rubrics: Rubric[] = [];
+  for (const [source, data] of Object.entries(rubricModules)) {
+    if (!isValidRubric(data, source)) continue;
+    if (rubrics.some(r => r.id === data.id)) {
+      console.error(`Skipping rubric ${source}: duplicate id "${data.id}"`);
+      continue;
+    }
+    rubrics.push(data);
+  }
+  return rubrics;
+};
+
+export const rubricLibrary = loadRubricLibrary();
+
+export const findRubric = (rubricId: string): Rubric | null => rubricLibrary.find(r => r.id === rubricId) ?? null;
+
+// There is deliberately no fallback: marking a station against some other rubric would give a wrong result with no sign of it.
+export const getRubric = (rubricId: string): Rubric => {
+  const rubric = findRubric(rubricId);
+  if (!rubric) {
+    throw new Error(`Rubric "${rubricId}" not found.`);
+  }
+  return rubric;
+};
+
+export const getRubricForCase = (clinicalCase: ClinicalCase): Rubric => getRubric(clinicalCase.rubricId);
@@ -0,0 +1,62 @@
+import { Rubric, ScoreAuditTrail, ScoreData } from '../types';
+
+export const createAuditTrail = (aiScore: ScoreData): ScoreAuditTrail => ({
+  originalAiScore: aiScore,
+  edits: [],
+  signOff: null,
+});
+
+export const getCurrentScore = (trail: ScoreAuditTrail): ScoreData =>
+  trail.edits.length > 0 ? trail.edits[trail.edits.length - 1].after : trail.originalAiScore;
+
+export const isScorecardLocked = (trail: ScoreAuditTrail): boolean => trail.signOff !== null;
+
+export const recordScoreEdit = (trail: ScoreAuditTrail, after: ScoreData, examinerId: string, reason: string): ScoreAuditTrail => {
+  if (isScorecardLocked(trail)) {
+    throw new Error('Scorecard has been signed off and can no longer be edited.');
+  }
+  if (!examinerId.trim() || !reason.trim()) {
+    throw new Error('An examiner ID and a reason are required to edit a scorecard.');
+  }
+  return {
+    ...trail,
+    edits: [
+      ...trail.edits,
+      { examinerId: examinerId.trim(), timestamp: new Date().toISOString(), reason: reason.trim(), before: getCurrentScore(trail), after },
+    ],
+  };
+};
+
+export const signOffScorecard = (trail: ScoreAuditTrail, examinerId: string): ScoreAuditTrail => {
+  if (isScorecardLocked(trail)) return trail;
+  if (!examinerId.trim()) {
+    throw new Error('An examiner ID is required to sign off a scorecard.');
+  }
+  return { ...trail, signOff: { examinerId: examinerId.trim(), timestamp: new Date().toISOString() } };
+};
+
+export interface ScoreComparisonRow {
+  categoryId: string;
+  name: string;
+  aiScore: number | null;
+  humanScore: number | null;
+}
+
+// AI and human-verified scores side by side; the human column is only filled once the scorecard is signed off.
+export const buildScoreComparison = (rubric: Rubric, trail: ScoreAuditTrail): ScoreComparisonRow[] => {
+  const current = getCurrentScore(trail);
+  const verified = isScorecardLocked(trail);
+  const rows: ScoreComparisonRow[] = rubric.categories.map(category => ({
+    categoryId: category.id,
+    name: category.name,
+    aiScore: trail.originalAiScore.categories[category.id]?.score ?? null,
+    humanScore: verified ? current.categories[category.id]?.score ?? null : null,
+  }));
+  rows.push({
+    categoryId: 'overall',
+    name: 'Overall',
+    aiScore: trail.originalAiScore.overallScore,
+    humanScore: verified ? current.overallScore : null,
+  });
+  return rows;
+};
@@ -0,0 +1,102 @@
+import { Rubric, RubricCategory, RubricLevel, ScoreCategory, ScoreData } from '../types';
+import { isArrayOf, isNonEmptyString, isNumber, isRecord } from './validation';
+
+export const getCategoryLevels = (rubric: Rubric, category: RubricCategory): RubricLevel[] =>
+  category.levels && category.levels.length > 0 ? category.levels : rubric.levels;
+
+export const getLevelDescriptor = (rubric: Rubric, category: RubricCategory, score: number): RubricLevel | undefined =>
+  getCategoryLevels(rubric, category).find(level => level.score === Math.round(score));
+
+// Every whole-number score on the rubric's scale, lowest first.
+export const getScaleValues = (rubric: Rubric): number[] => {
+  const values: number[] = [];
+  for (let value = rubric.scale.min; value <= rubric.scale.max; value++) values.push(value);
+  return values;
+};
+
+// Weighted mean of the category scores, rounded to one decimal place.
+export const calculateOverallScore = (rubric: Rubric, categories: Record<string, ScoreCategory>): number => {
+  let weightedTotal = 0;
+  let totalWeight = 0;
+  for (const category of rubric.categories) {
+    const scored = categories[category.id];
+    if (!scored) continue;
+    weightedTotal += scored.score * category.weight;
+    totalWeight += category.weight;
+  }
+  if (totalWeight === 0) return rubric.scale.min;
+  return Math.round((weightedTotal / totalWeight) * 10) / 10;
+};
+
+export const buildScoreData = (
+  rubric: Rubric,
+  categories: Record<string, ScoreCategory>,
+  checklist?: ScoreData['checklist'],
+): ScoreData => {
+  const overallScore = calculateOverallScore(rubric, categories);
+  return {
+    rubricId: rubric.id,
+    categories,
+    overallScore,
+    passed: overallScore >= rubric.passThreshold,
+    checklist,
+  };
+};
+
+export const updateCategoryScore = (rubric: Rubric, scoreData: ScoreData, categoryId: string, score: number): ScoreData => {
+  const categories = {
+    ...scoreData.categories,
+    [categoryId]: { ...scoreData.categories[categoryId], score },
+  };
+  return buildScoreData(rubric, categories, scoreData.checklist);
+};
+
+export interface ScoreValidationResult {
+  // Null whenever errors is non-empty.
+  scoreData: ScoreData | null;
+  errors: string[];
+}
+
+// Runtime check of a structured scoring response against the rubric it was requested for.
+export const validateScorePayload = (rubric: Rubric, payload: unknown, transcriptLength: number): ScoreValidationResult => {
+  const errors: string[] = [];
+
+  if (!isRecord(payload) || !isRecord(payload.categories)) {
+    return { scoreData: null, errors: ['Response must be an object with a "categories" object.'] };
+  }
+
+  const isTranscriptTurn = (turn: unknown) => isNumber(turn) && Number.isInteger(turn) && turn >= 0 && turn < transcriptLength;
+  const categories: Record<string, ScoreCategory> = {};
+  for (const category of rubric.categories) {
+    const scored = payload.categories[category.id];
+    if (!isRecord(scored)) {
+      errors.push(`Missing category "${category.id}".`);
+      continue;
+    }
+    const { score, justification } = scored;
+    const evidence = scored.evidence ?? [];
+    const isScoreValid = isNumber(score) && Number.isInteger(score) && score >= rubric.scale.min && score <= rubric.scale.max;
+    if (!isScoreValid) {
+      errors.push(`Category "${category.id}" score must be a whole number from ${rubric.scale.min} to ${rubric.scale.max}, got ${JSON.stringify(score)}.`);
+    }
+    if (!isNonEmptyString(justification)) {
+      errors.push(`Category "${category.id}" needs a non-empty justification.`);
+    }
+    const isEvidenceValid = isArrayOf(evidence, isTranscriptTurn);
+    if (!isEvidenceValid) {
+      errors.push(`Category "${category.id}" evidence must only reference transcript turns 0 to ${transcriptLength - 1}.`);
+    }
+    if (isScoreValid && isNonEmptyString(justification) && isEvidenceValid) {
+      categories[category.id] = { score, justification, evidence: [...new Set(evidence.filter(isNumber))].sort((a, b) => a - b) };
+    }
+  }
+
+  if (errors.length > 0) return { scoreData: null, errors };
+
+  const scoreData = buildScoreData(rubric, categories);
+  // The overall score is always derived from the rubric weights; a disagreeing model value is logged, not trusted.
+  if (isNumber(payload.overallScore) && Math.abs(payload.overallScore - scoreData.overallScore) > 0.05) {
+    console.warn(`Model overall score ${payload.overallScore} does not match weighted average ${scoreData.overallScore}; using the weighted average.`);
+  }
+  return { scoreData, errors: [] };
+};
@@ -0,0 +1,352 @@
+import { ClinicalCase, Rubric, ScoreData, SessionBundle, StoredSession } from '../types';
+import { buildScoreComparison, getCurrentScore, isScorecardLocked } from './scoreAudit';
+import { getLevelDescriptor } from './scoring';
+import { countWarnings, proctoringPolicies, violationLabels } from './proctoringPolicy';
+import { countInterruptions, formatTimestamp, getResponseLatenciesMs, getStationDurationMs } from './transcriptTiming';
+import { isArrayOf, isBoolean, isNumber, isRecord, isString } from './validation';
+
+const removeEvidenceMedia = (session: StoredSession): StoredSession => ({
+  ...session,
+  candidateIdentity: { ...session.candidateIdentity, idCardPhoto: '', referenceFace: '' },
+  incidents: session.incidents.map(incident => ({ ...incident, snapshot: null, audioClip: null })),
+});
+
+// Candidates download this bundle and faculty collect it for cohort analytics, neither of which needs the identity
+// photos or incident evidence, so they are only kept when an invigilator asks for them.
+export const buildSessionBundle = (session: StoredSession, clinicalCase: ClinicalCase, rubric: Rubric, evidenceIncludedBy: string | null = null): SessionBundle => ({
+  format: 'osce-session-bundle',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  evidenceIncludedBy,
+  session: evidenceIncludedBy ? session : removeEvidenceMedia(session),
+  clinicalCase,
+  rubric,
+});
+
+export interface SessionSummary {
+  finalScore: ScoreData | null;
+  aiOverallScore: number | null;
+  // Null until an examiner has signed off the scorecard.
+  verifiedBy: string | null;
+  stationDurationMs: number;
+  studentTurns: number;
+  medianResponseLatencyMs: number | null;
+  // Patient turns the student talked over.
+  interruptions: number;
+  checklistCovered: number;
+  checklistTotal: number;
+  warnings: number;
+  confirmedIncidents: number;
+  unproctoredMs: number;
+  identityVerified: boolean;
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const summarizeSession = (bundle: SessionBundle): SessionSummary => {
+  const { session } = bundle;
+  const finalScore = session.scoreAudit ? getCurrentScore(session.scoreAudit) : null;
+  const checklist = finalScore?.checklist ?? [];
+  const unproctoredMs = (session.proctoringHealth?.unproctoredIntervals ?? []).reduce((total, interval) =>
+    total + Math.max(0, Date.parse(interval.end ?? session.updatedAt) - Date.parse(interval.start)), 0);
+
+  return {
+    finalScore,
+    aiOverallScore: session.scoreAudit?.originalAiScore.overallScore ?? null,
+    verifiedBy: session.scoreAudit?.signOff?.examinerId ?? null,
+    stationDurationMs: getStationDurationMs(session.transcripts),
+    studentTurns: session.transcripts.filter(t => t.role === 'Student').length,
+    medianResponseLatencyMs: median(getResponseLatenciesMs(session.transcripts)),
+    interruptions: countInterruptions(session.transcripts),
+    checklistCovered: checklist.filter(item => item.covered).length,
+    checklistTotal: checklist.length,
+    warnings: countWarnings(session.incidents),
+    confirmedIncidents: session.incidents.filter(incident => incident.review === 'confirmed').length,
+    unproctoredMs,
+    identityVerified: session.candidateIdentity.verification.status === 'match',
+  };
+};
+
+// --- CSV ---
+
+// Spreadsheets run a text cell starting with one of these as a formula, and candidate IDs are typed by the candidate.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number | boolean | null): string => {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const getPolicyName = (policyId: string): string => proctoringPolicies.find(p => p.id === policyId)?.name ?? policyId;
+
+// One row per session. Category columns are the union across all rubrics, so mixed stations share one sheet.
+export const buildSessionCsv = (bundles: SessionBundle[]): string => {
+  const categoryIds = [...new Set(bundles.flatMap(bundle => bundle.rubric.categories.map(category => category.id)))];
+  const header = [
+    'session_id', 'ai_provider', 'candidate_id', 'case_id', 'case_title', 'rubric_id', 'policy_id', 'started_at', 'status',
+    'station_duration_s', 'student_turns', 'median_response_latency_s', 'interruptions',
+    'ai_overall_score', 'final_overall_score', 'passed', 'verified_by',
+    'checklist_covered', 'checklist_total', 'warnings', 'confirmed_incidents', 'unproctored_s', 'identity_verified',
+    ...categoryIds.map(id => `score_${id}`),
+  ];
+
+  const rows = bundles.map(bundle => {
+    const { session } = bundle;
+    const summary = summarizeSession(bundle);
+    return [
+      session.id,
+      session.aiProviderId,
+      session.candidateIdentity.candidateId,
+      bundle.clinicalCase.id,
+      bundle.clinicalCase.title,
+      bundle.rubric.id,
+      session.policyId,
+      session.startedAt,
+      session.status,
+      Math.round(summary.stationDurationMs / 1000),
+      summary.studentTurns,
+      summary.medianResponseLatencyMs === null ? null : (summary.medianResponseLatencyMs / 1000).toFixed(1),
+      summary.interruptions,
+      summary.aiOverallScore,
+      summary.finalScore?.overallScore ?? null,
+      summary.finalScore?.passed ?? null,
+      summary.verifiedBy,
+      summary.checklistCovered,
+      summary.checklistTotal,
+      summary.warnings,
+      summary.confirmedIncidents,
+      Math.round(summary.unproctoredMs / 1000),
+      summary.identityVerified,
+      ...categoryIds.map(id => summary.finalScore?.categories[id]?.score ?? null),
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+// --- HTML report ---
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The examiner feedback is loosely formatted markdown; only paragraphs and **bold** are kept.
+const formatFeedback = (feedback: string): string =>
+  feedback
+    .split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const reportStyles = `
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 2px solid #e5e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.4rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  .muted { color: #6b7280; font-size: 0.9rem; }
+  .pass { color: #15803d; font-weight: bold; }
+  .fail { color: #b91c1c; font-weight: bold; }
+  .warning { background: #fef3c7; border: 1px solid #f59e0b; padding: 0.5rem 0.75rem; border-radius: 4px; }
+  .transcript p { margin: 0.25rem 0; }
+  .print-button { margin-top: 1rem; padding: 0.5rem 1rem; }
+  @media print { .print-button { display: none; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+export const buildCandidateReportHtml = (bundle: SessionBundle): string => {
+  const { session, clinicalCase, rubric } = bundle;
+  const summary = summarizeSession(bundle);
+  const finalScore = summary.finalScore;
+  const comparison = session.scoreAudit ? buildScoreComparison(rubric, session.scoreAudit) : [];
+  const isVerified = session.scoreAudit ? isScorecardLocked(session.scoreAudit) : false;
+
+  const verification = [
+    ...(session.aiProviderId === 'mock' ? ['Practice run on the offline mock AI provider: nothing in this report was assessed, and it is not an exam result.'] : []),
+    isVerified
+      ? `Scorecard verified by examiner ${escapeHtml(summary.verifiedBy ?? '')} on ${new Date(session.scoreAudit!.signOff!.timestamp).toLocaleString()}.`
+      : 'Provisional result: the scorecard has not yet been verified by an examiner.',
+    summary.identityVerified ? 'Candidate identity verified against photo ID.' : 'Candidate identity could not be verified against photo ID.',
+    `${summary.warnings} proctoring warning${summary.warnings === 1 ? '' : 's'}, ${summary.confirmedIncidents} confirmed by an invigilator.`,
+    ...(summary.unproctoredMs > 0 ? [`${formatTimestamp(summary.unproctoredMs)} of the exam was not proctored.`] : []),
+  ];
+
+  const scoreRows = rubric.categories.map(category => {
+    const row = comparison.find(r => r.categoryId === category.id);
+    const score = finalScore?.categories[category.id];
+    const descriptor = score ? getLevelDescriptor(rubric, category, score.score) : undefined;
+    return `<tr>
+      <td><strong>${escapeHtml(category.name)}</strong>${category.weight !== 1 ? ` <span class="muted">(weight ${category.weight})</span>` : ''}</td>
+      <td>${score ? `${score.score} / ${rubric.scale.max}${descriptor ? ` <span class="muted">${escapeHtml(descriptor.label)}</span>` : ''}` : '–'}</td>
+      <td>${row?.aiScore ?? '–'}</td>
+      <td>${score ? escapeHtml(score.justification) : ''}</td>
+    </tr>`;
+  }).join('\n');
+
+  const checklistRows = (finalScore?.checklist ?? []).map(item =>
+    `<tr><td>${item.covered ? '&#10003;' : '&#10007;'}</td><td>${escapeHtml(item.label)}</td></tr>`
+  ).join('\n');
+
+  const encounter = session.transcripts.filter(t => t.role !== 'Examiner');
+  const transcript = encounter.map(t =>
+    `<p><span class="muted">${formatTimestamp(t.startMs)}</span> <strong>${t.role === 'SP' ? 'Patient' : t.role}:</strong> ${escapeHtml(t.text)}${t.interrupted ? ' <em class="muted">(interrupted)</em>' : t.isFinal ? '' : ' <em class="muted">(cut off)</em>'}</p>`
+  ).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>OSCE Report – ${escapeHtml(clinicalCase.title)} – ${escapeHtml(session.candidateIdentity.candidateId)}</title>
+<style>${reportStyles}</style>
+</head>
+<body>
+<h1>${escapeHtml(clinicalCase.title)}</h1>
+<p class="muted">Candidate ${escapeHtml(session.candidateIdentity.candidateId)} · ${new Date(session.startedAt).toLocaleString()} · Station time ${formatTimestamp(summary.stationDurationMs)} · Interrupted the patient ${summary.interruptions} time${summary.interruptions === 1 ? '' : 's'} · Rubric: ${escapeHtml(rubric.name)} · Proctoring policy: ${escapeHtml(getPolicyName(session.policyId))}</p>
+<button class="print-button" onclick="window.print()">Print / Save as PDF</button>
+
+<h2>Result</h2>
+${finalScore
+  ? `<p>Overall score: <strong>${finalScore.overallScore} / ${rubric.scale.max}</strong> (pass mark ${rubric.passThreshold}) · <span class="${finalScore.passed ? 'pass' : 'fail'}">${finalScore.passed ? 'PASS' : 'FAIL'}</span></p>`
+  : '<p class="warning">No score is available for this session.</p>'}
+<div class="${isVerified && session.aiProviderId !== 'mock' ? '' : 'warning'}">${verification.map(line => `<div>${line}</div>`).join('')}</div>
+
+<h2>Rubric Scores</h2>
+<table>
+<thead><tr><th>Category</th><th>Score</th><th>AI score</th><th>Justification</th></tr></thead>
+<tbody>${scoreRows}</tbody>
+</table>
+
+${checklistRows ? `<h2>History Checklist (${summary.checklistCovered} of ${summary.checklistTotal} covered)</h2>
+<table><tbody>${checklistRows}</tbody></table>` : ''}
+${finalScore && !finalScore.checklist ? `<h2>History Checklist</h2>
+<p class="warning">The history checklist could not be evaluated for this session.</p>` : ''}
+
+<h2>Examiner Feedback</h2>
+${session.examinerFeedback ? formatFeedback(session.examinerFeedback) : '<p class="muted">No feedback was recorded.</p>'}
+
+<h2>Transcript</h2>
+<div class="transcript">${transcript || '<p class="muted">No conversation was recorded.</p>'}</div>
+
+${session.incidents.length > 0 ? `<h2>Proctoring Incidents</h2>
+<table>
+<thead><tr><th>Time</th><th>Incident</th><th>Severity</th><th>Review</th></tr></thead>
+<tbody>${session.incidents.map(incident => `<tr><td>${new Date(incident.timestamp).toLocaleTimeString()}</td><td>${escapeHtml(violationLabels[incident.category])}</td><td>${incident.severity}</td><td>${incident.review}</td></tr>`).join('\n')}</tbody>
+</table>` : ''}
+</body>
+</html>`;
+};
+
+// --- Delivery ---
+
+// Some browsers start the download only after click() returns, so the object URL is kept alive for a while.
+const DOWNLOAD_URL_LIFETIME_MS = 10_000;
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+// Opens the report in a new window and brings up the print dialog, from which it can be saved as a PDF.
+export const printReport = (html: string) => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) {
+    console.error("Could not open the report window; is a popup blocker active?");
+    return;
+  }
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+};
+
+export const getExportFilename = (bundle: SessionBundle, extension: string): string =>
+  `osce-${bundle.clinicalCase.id}-${bundle.session.candidateIdentity.candidateId || 'candidate'}-${bundle.session.startedAt.slice(0, 10)}.${extension}`.replace(/[^\w.-]+/g, '_');
+
+// --- Import ---
+
+const isScoreData = (value: unknown): boolean =>
+  isRecord(value)
+  && isString(value.rubricId)
+  && isRecord(value.categories)
+  && Object.values(value.categories).every(category =>
+    isRecord(category) && isNumber(category.score) && isString(category.justification) && isArrayOf(category.evidence, isNumber))
+  && isNumber(value.overallScore)
+  && isBoolean(value.passed)
+  && (value.checklist === undefined || isArrayOf(value.checklist, item =>
+    isRecord(item) && isString(item.itemId) && isString(item.label) && isBoolean(item.covered)));
+
+const isScoreAudit = (value: unknown): boolean =>
+  isRecord(value)
+  && isScoreData(value.originalAiScore)
+  && isArrayOf(value.edits, edit => isRecord(edit) && isString(edit.examinerId) && isScoreData(edit.before) && isScoreData(edit.after))
+  && (value.signOff === null || (isRecord(value.signOff) && isString(value.signOff.examinerId) && isString(value.signOff.timestamp)));
+
+const isTranscriptEntry = (value: unknown): boolean =>
+  isRecord(value) && isString(value.role) && isString(value.text) && isNumber(value.startMs) && isNumber(value.endMs) && isBoolean(value.isFinal);
+
+const isIncident = (value: unknown): boolean =>
+  isRecord(value) && isString(value.category) && isString(value.severity) && isString(value.review) && isString(value.timestamp);
+
+// Every field the exports and the cohort analytics read, so a damaged or hand-edited bundle is skipped instead of
+// breaking the dashboard. Returns the fields that are missing or invalid.
+const getBundleProblems = (data: unknown): string[] => {
+  if (!isRecord(data) || data.format !== 'osce-session-bundle' || data.version !== 1) return ['format'];
+  const { session, clinicalCase, rubric } = data;
+  const problems: string[] = [];
+
+  if (!isRecord(session)) {
+    problems.push('session');
+  } else {
+    if (!isString(session.id)) problems.push('session.id');
+    if (!isString(session.policyId)) problems.push('session.policyId');
+    if (!isString(session.startedAt) || !isString(session.updatedAt)) problems.push('session timestamps');
+    if (!isRecord(session.candidateIdentity) || !isString(session.candidateIdentity.candidateId)
+      || !isRecord(session.candidateIdentity.verification) || !isString(session.candidateIdentity.verification.status)) {
+      problems.push('session.candidateIdentity');
+    }
+    if (!isArrayOf(session.transcripts, isTranscriptEntry)) problems.push('session.transcripts');
+    if (!isArrayOf(session.incidents, isIncident)) problems.push('session.incidents');
+    if (session.scoreAudit !== null && !isScoreAudit(session.scoreAudit)) problems.push('session.scoreAudit');
+    if (session.proctoringHealth !== null && !(isRecord(session.proctoringHealth) && isArrayOf(session.proctoringHealth.unproctoredIntervals, interval =>
+      isRecord(interval) && isString(interval.start) && (interval.end === null || isString(interval.end))))) {
+      problems.push('session.proctoringHealth');
+    }
+  }
+  if (!isRecord(clinicalCase) || !isString(clinicalCase.id) || !isString(clinicalCase.title)) problems.push('clinicalCase');
+  if (!isRecord(rubric) || !isString(rubric.id) || !isString(rubric.name) || !isNumber(rubric.passThreshold)
+    || !isRecord(rubric.scale) || !isNumber(rubric.scale.min) || !isNumber(rubric.scale.max)
+    || !isArrayOf(rubric.levels, isRecord)
+    || !isArrayOf(rubric.categories, category => isRecord(category) && isString(category.id) && isString(category.name) && isNumber(category.weight))) {
+    problems.push('rubric');
+  }
+  return problems;
+};
+
+// Reads back a bundle produced by buildSessionBundle; returns null for anything else.
+export const parseSessionBundle = (json: string, source: string): SessionBundle | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    console.error(`Skipping ${source}: invalid JSON.`, error);
+    return null;
+  }
+  const problems = getBundleProblems(data);
+  if (problems.includes('format')) {
+    console.error(`Skipping ${source}: not an OSCE session bundle.`);
+    return null;
+  }
+  if (problems.length > 0) {
+    console.error(`Skipping ${source}: missing or invalid ${problems.join(', ')}`);
+    return null;
+  }
+  return data as SessionBundle;
+};
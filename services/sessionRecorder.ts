@@ -0,0 +1,76 @@
+import { SessionRecording } from '../types';
+
+// Codecs in order of preference; the first one the browser can record is used.
+const preferredMimeTypes = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export interface SessionRecorder {
+  // Connect every audio source that should be heard (and recorded) here instead of the context destination.
+  output: AudioNode;
+  // stationOffsetMs is how far into the station recording begins; non-zero when a session is resumed.
+  start: (stationOffsetMs?: number) => void;
+  stop: () => Promise<SessionRecording | null>;
+}
+
+// Records the webcam video together with a mix of the candidate's microphone and everything played back
+// through `output` (patient and examiner voices), so both sides of the encounter end up on one track.
+export const createSessionRecorder = (mediaStream: MediaStream, audioContext: AudioContext): SessionRecorder => {
+  const mix = audioContext.createMediaStreamDestination();
+  const output = audioContext.createGain();
+  output.connect(audioContext.destination);
+  output.connect(mix);
+
+  // The microphone goes to the recording only; routing it to the speakers would echo the candidate.
+  const micTracks = mediaStream.getAudioTracks();
+  const microphone = micTracks.length > 0 ? audioContext.createMediaStreamSource(new MediaStream(micTracks)) : null;
+  microphone?.connect(mix);
+
+  const mimeType = typeof MediaRecorder !== 'undefined'
+    ? preferredMimeTypes.find(type => MediaRecorder.isTypeSupported(type)) ?? ''
+    : '';
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder | null = null;
+  let startedAt: number | null = null;
+  let recordingStationOffsetMs = 0;
+
+  const start = (stationOffsetMs: number = 0) => {
+    if (recorder || typeof MediaRecorder === 'undefined') return;
+    try {
+      const recordedStream = new MediaStream([...mediaStream.getVideoTracks(), ...mix.stream.getAudioTracks()]);
+      recorder = new MediaRecorder(recordedStream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      // Timeslices keep memory bounded and mean a crash loses at most a second of footage.
+      recorder.start(1000);
+      startedAt = Date.now();
+      recordingStationOffsetMs = stationOffsetMs;
+    } catch (error) {
+      console.error("Could not start session recording:", error);
+      recorder = null;
+    }
+  };
+
+  const stop = (): Promise<SessionRecording | null> => {
+    microphone?.disconnect();
+    const activeRecorder = recorder;
+    if (!activeRecorder || startedAt === null || activeRecorder.state === 'inactive') return Promise.resolve(null);
+    const recordingStartedAt = startedAt;
+
+    return new Promise(resolve => {
+      activeRecorder.onstop = () => {
+        const blob = new Blob(chunks, { type: activeRecorder.mimeType || mimeType || 'video/webm' });
+        resolve({
+          blob,
+          url: URL.createObjectURL(blob),
+          mimeType: blob.type,
+          startedAt: new Date(recordingStartedAt).toISOString(),
+          durationMs: Date.now() - recordingStartedAt,
+          stationOffsetMs: recordingStationOffsetMs,
+        });
+      };
+      activeRecorder.stop();
+    });
+  };
+
+  return { output, start, stop };
+};
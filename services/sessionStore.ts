@@ -0,0 +1,103 @@
+import { AIProviderId, CandidateIdentity, StoredSession } from '../types';
+
+// Sessions are written to IndexedDB as the exam runs so a refresh or tab crash does not lose the station.
+const DB_NAME = 'osce-exam';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(SESSION_STORE)) {
+          request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if the database could not be opened.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createStoredSession = (caseId: string, policyId: string, aiProviderId: AIProviderId, candidateIdentity: CandidateIdentity): StoredSession => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    caseId,
+    policyId,
+    aiProviderId,
+    candidateIdentity,
+    startedAt: now,
+    updatedAt: now,
+    status: 'active',
+    phase: 'initializing',
+    phaseHistory: [{ phase: 'initializing', at: now }],
+    stationElapsedMs: 0,
+    transcripts: [],
+    examinerFeedback: '',
+    scoreAudit: null,
+    incidents: [],
+    proctoringHealth: null,
+  };
+};
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE).put(session));
+  } catch (error) {
+    console.error("Failed to save exam session:", error);
+  }
+};
+
+// Reads and writes the session in one transaction, so updates from different parts of the app never overwrite each other.
+export const updateSession = async (id: string, update: (session: StoredSession) => StoredSession): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE);
+    const existing = await requestToPromise<StoredSession | undefined>(store.get(id));
+    if (!existing) return;
+    await requestToPromise(store.put({ ...update(existing), updatedAt: new Date().toISOString() }));
+  } catch (error) {
+    console.error("Failed to update exam session:", error);
+  }
+};
+
+export const listSessions = async (): Promise<StoredSession[]> => {
+  try {
+    const db = await openDatabase();
+    const sessions = await requestToPromise<StoredSession[]>(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+    return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  } catch (error) {
+    console.error("Failed to list exam sessions:", error);
+    return [];
+  }
+};
+
+// The most recent session that was still running when the page went away, if any.
+export const findInterruptedSession = async (): Promise<StoredSession | null> => {
+  const sessions = await listSessions();
+  return sessions.find(session => session.status === 'active' && session.phase !== 'ended') ?? null;
+};
+
+export const getSession = async (id: string): Promise<StoredSession | null> => {
+  try {
+    const db = await openDatabase();
+    return (await requestToPromise<StoredSession | undefined>(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id))) ?? null;
+  } catch (error) {
+    console.error("Failed to load exam session:", error);
+    return null;
+  }
+};
@@ -0,0 +1,29 @@
+import { TranscriptEntry } from '../types';
+
+// Formats a station-relative offset as minutes:seconds, e.g. 3:07.
+export const formatTimestamp = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// One transcript line for prompts and exports, e.g. "[4] (2:15) Student: Any chest pain?".
+export const formatTranscriptLine = (entry: TranscriptEntry, index?: number): string => {
+  const number = index !== undefined ? `[${index}] ` : '';
+  const cutOff = entry.interrupted ? ' [interrupted]' : entry.isFinal ? '' : ' [cut off]';
+  return `${number}(${formatTimestamp(entry.startMs)}) ${entry.role}: ${entry.text}${cutOff}`;
+};
+
+// The station runs from Ready until the last student-patient turn; examiner feedback is not part of it.
+export const getStationDurationMs = (transcript: TranscriptEntry[]): number =>
+  transcript.filter(entry => entry.role !== 'Examiner').reduce((latest, entry) => Math.max(latest, entry.endMs), 0);
+
+// How many patient turns the student talked over, a communication-skills signal alongside response latency.
+export const countInterruptions = (transcript: TranscriptEntry[]): number =>
+  transcript.filter(entry => entry.role === 'SP' && entry.interrupted).length;
+
+// How long the student took to start speaking after each patient turn ended.
+export const getResponseLatenciesMs = (transcript: TranscriptEntry[]): number[] =>
+  transcript.flatMap((entry, i) => {
+    const previous = transcript[i - 1];
+    return entry.role === 'Student' && previous?.role === 'SP' ? [Math.max(0, entry.startMs - previous.endMs)] : [];
+  });
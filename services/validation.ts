@@ -0,0 +1,16 @@
+// Type guards for JSON that comes from outside the app: case and rubric files, model responses and imported
+// session bundles. They narrow unknown values field by field, so nothing has to be cast to any to be checked.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+export const isArrayOf = (value: unknown, isItem: (item: unknown) => boolean): value is unknown[] =>
+  Array.isArray(value) && value.every(item => isItem(item));
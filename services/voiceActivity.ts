@@ -0,0 +1,158 @@
+// Local voice activity detection on the captured microphone audio. It tells the exam when the candidate is
+// talking without waiting for the server's turn detection, and judges whether an utterance was loud and clean
+// enough to be understood.
+
+// Below this the input is treated as silence whatever the background noise (about -46 dBFS).
+const MIN_SPEECH_RMS = 0.005;
+// Speech must stand this far above the background noise: 2x is about 6 dB.
+const SPEECH_TO_NOISE_RATIO = 2;
+// An utterance whose average level is less than 4x (12 dB) the noise, or below -40 dBFS, is hard to make out.
+const CLEAR_SPEECH_TO_NOISE_RATIO = 4;
+const MIN_CLEAR_SPEECH_RMS = 0.01;
+// More than this share of samples at full scale means the microphone gain is too high and the speech is distorted.
+const MAX_CLIPPED_FRACTION = 0.01;
+const CLIPPING_LEVEL = 0.99;
+// A burst shorter than this (a cough, a knock on the desk) does not start speech.
+const MIN_SPEECH_MS = 200;
+// Speech continues through gaps shorter than this, so pauses between words do not end the utterance.
+const HANGOVER_MS = 700;
+// The noise floor is the quietest chunk heard over this window, whether or not it was taken for speech. Speech
+// always pauses between words and for breath, so the minimum stays on the background while the candidate talks,
+// and a steady noise (a fan, automatic gain control) becomes the floor within this time rather than counting as speech forever.
+const NOISE_WINDOW_MS = 5000;
+// The level meter spans -60 to 0 dBFS.
+const METER_FLOOR_DB = -60;
+
+export interface Utterance {
+  durationMs: number;
+  averageRms: number;
+  clippedFraction: number;
+  // Too quiet against the background noise, or clipped.
+  isUnclear: boolean;
+}
+
+export interface VoiceActivity {
+  isSpeaking: boolean;
+  // Input level from 0 to 1, for a level meter.
+  level: number;
+  // Set on the chunk that ends an utterance.
+  endedUtterance: Utterance | null;
+}
+
+export interface VoiceActivityDetector {
+  process: (samples: Float32Array) => VoiceActivity;
+  // Listeners get the result for every processed chunk; the returned function unsubscribes.
+  subscribe: (listener: (activity: VoiceActivity) => void) => () => void;
+}
+
+const getMeterLevel = (rms: number): number => {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+};
+
+// Minimum statistics over the last NOISE_WINDOW_MS. It starts out as if the window had been quiet at the default floor.
+const createNoiseFloorTracker = () => {
+  const levels = [{ rms: MIN_SPEECH_RMS / SPEECH_TO_NOISE_RATIO, durationMs: NOISE_WINDOW_MS }];
+  let windowMs = NOISE_WINDOW_MS;
+
+  return {
+    get: () => Math.min(...levels.map(level => level.rms)),
+    add: (rms: number, durationMs: number) => {
+      levels.push({ rms, durationMs });
+      windowMs += durationMs;
+      while (windowMs - levels[0].durationMs >= NOISE_WINDOW_MS) {
+        windowMs -= levels.shift()!.durationMs;
+      }
+    },
+  };
+};
+
+export const createVoiceActivityDetector = (sampleRate: number): VoiceActivityDetector => {
+  const noise = createNoiseFloorTracker();
+  let noiseFloor = noise.get();
+  let isSpeaking = false;
+  // Loud input heard so far that has not yet lasted long enough to count as speech.
+  let onsetMs = 0;
+  let quietMs = 0;
+  // Running totals for the current utterance, including its onset.
+  let utteranceMs = 0;
+  let squareSum = 0;
+  let sampleCount = 0;
+  let clippedCount = 0;
+  const listeners = new Set<(activity: VoiceActivity) => void>();
+
+  const startUtterance = () => {
+    utteranceMs = 0;
+    squareSum = 0;
+    sampleCount = 0;
+    clippedCount = 0;
+  };
+
+  const finishUtterance = (): Utterance => {
+    const averageRms = Math.sqrt(squareSum / Math.max(1, sampleCount));
+    const clippedFraction = clippedCount / Math.max(1, sampleCount);
+    return {
+      durationMs: utteranceMs,
+      averageRms,
+      clippedFraction,
+      isUnclear: averageRms < Math.max(MIN_CLEAR_SPEECH_RMS, noiseFloor * CLEAR_SPEECH_TO_NOISE_RATIO) || clippedFraction > MAX_CLIPPED_FRACTION,
+    };
+  };
+
+  const process = (samples: Float32Array): VoiceActivity => {
+    let chunkSquareSum = 0;
+    let chunkClipped = 0;
+    for (let i = 0; i < samples.length; i++) {
+      chunkSquareSum += samples[i] * samples[i];
+      if (Math.abs(samples[i]) >= CLIPPING_LEVEL) chunkClipped++;
+    }
+    const rms = Math.sqrt(chunkSquareSum / Math.max(1, samples.length));
+    const durationMs = (samples.length / sampleRate) * 1000;
+    // Judged against the floor learned from the audio before this chunk.
+    const isLoud = rms >= Math.max(MIN_SPEECH_RMS, noiseFloor * SPEECH_TO_NOISE_RATIO);
+    noise.add(rms, durationMs);
+    noiseFloor = noise.get();
+    let endedUtterance: Utterance | null = null;
+
+    if (isLoud) {
+      quietMs = 0;
+      if (!isSpeaking) {
+        if (onsetMs === 0) startUtterance();
+        onsetMs += durationMs;
+        if (onsetMs >= MIN_SPEECH_MS) isSpeaking = true;
+      }
+    } else {
+      onsetMs = 0;
+      if (isSpeaking) {
+        quietMs += durationMs;
+        if (quietMs >= HANGOVER_MS) {
+          isSpeaking = false;
+          quietMs = 0;
+          endedUtterance = finishUtterance();
+        }
+      }
+    }
+
+    // Only the loud parts of an utterance count towards its length and level; the pauses between words do not.
+    if (isLoud) {
+      utteranceMs += durationMs;
+      squareSum += chunkSquareSum;
+      sampleCount += samples.length;
+      clippedCount += chunkClipped;
+    }
+
+    const activity = { isSpeaking, level: getMeterLevel(rms), endedUtterance };
+    listeners.forEach(listener => listener(activity));
+    return activity;
+  };
+
+  const subscribe = (listener: (activity: VoiceActivity) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { process, subscribe };
+};
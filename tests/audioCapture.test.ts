@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CAPTURE_SAMPLE_RATE, createResampler } from '../services/audioCapture';
+
+const CHUNK_SECONDS = 0.1;
+
+const sine = (sampleRate: number, seconds: number, frequency: number = 440) =>
+  Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// Feeds the signal through a fresh resampler in capture-sized chunks and returns each chunk's output.
+const resampleInChunks = (signal: Float32Array, fromRate: number): Float32Array[] => {
+  const resample = createResampler(fromRate, CAPTURE_SAMPLE_RATE);
+  const chunkLength = Math.round(fromRate * CHUNK_SECONDS);
+  const outputs: Float32Array[] = [];
+  for (let start = 0; start < signal.length; start += chunkLength) {
+    outputs.push(resample(signal.subarray(start, start + chunkLength)));
+  }
+  return outputs;
+};
+
+const concat = (chunks: Float32Array[]) => {
+  const joined = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => (joined.set(chunk, offset), offset + chunk.length), 0);
+  return joined;
+};
+
+describe('createResampler', () => {
+  it('passes audio already at the capture rate through unchanged', () => {
+    const input = sine(CAPTURE_SAMPLE_RATE, CHUNK_SECONDS);
+    expect(createResampler(CAPTURE_SAMPLE_RATE, CAPTURE_SAMPLE_RATE)(input)).toBe(input);
+  });
+
+  it('turns every 100ms chunk at 48kHz into exactly 100ms at 16kHz', () => {
+    const outputs = resampleInChunks(sine(48000, 2), 48000);
+    expect(outputs.map(chunk => chunk.length)).toEqual(Array(20).fill(1600));
+  });
+
+  it('carries the fractional position across chunks at 44.1kHz so no samples are gained or lost', () => {
+    const outputs = resampleInChunks(sine(44100, 2), 44100);
+    outputs.forEach(chunk => expect(Math.abs(chunk.length - 1600)).toBeLessThanOrEqual(1));
+    expect(Math.abs(concat(outputs).length - 2 * CAPTURE_SAMPLE_RATE)).toBeLessThanOrEqual(1);
+  });
+
+  it.each([48000, 44100])('gives the same samples at %iHz whether the audio arrives in chunks or all at once', fromRate => {
+    const signal = sine(fromRate, 1);
+    const chunked = concat(resampleInChunks(signal, fromRate));
+    const whole = createResampler(fromRate, CAPTURE_SAMPLE_RATE)(signal);
+    expect(chunked.length).toBe(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it.each([48000, 44100])('keeps a 440Hz tone smooth across chunk boundaries at %iHz', fromRate => {
+    const output = concat(resampleInChunks(sine(fromRate, 1), fromRate));
+    // The largest step between neighbouring samples of a 440Hz sine at 16kHz, with a little headroom for the averaging.
+    const maxStep = 2 * Math.PI * 440 / CAPTURE_SAMPLE_RATE * 1.05;
+    for (let i = 1; i < output.length; i++) {
+      expect(Math.abs(output[i] - output[i - 1])).toBeLessThan(maxStep);
+    }
+    expect(Math.max(...output)).toBeGreaterThan(0.99);
+  });
+});
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { floatTo16BitPcm } from '../services/audioUtils';
+
+describe('floatTo16BitPcm', () => {
+  it('scales samples to the full 16-bit range', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([0, 1, -1, 0.5, -0.5])))).toEqual([0, 32767, -32768, 16383, -16384]);
+  });
+
+  it('clips samples outside -1 to 1 instead of wrapping around', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([1.5, -1.5, 40, -40])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+});
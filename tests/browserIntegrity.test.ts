@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BrowserViolationType } from '../types';
+import { DisplayState, startBrowserIntegrityMonitor } from '../services/browserIntegrity';
+import { setExtendedDisplay } from './harness/fakeBrowser';
+
+const setVisibility = (state: DocumentVisibilityState) =>
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+
+const startMonitor = (displays: DisplayState = { isExtended: false }) => {
+  const signals: BrowserViolationType[] = [];
+  const stop = startBrowserIntegrityMonitor(type => signals.push(type), displays);
+  return { signals, stop };
+};
+
+afterEach(() => {
+  setVisibility('visible');
+});
+
+describe('browser integrity monitor', () => {
+  it('reports a window that loses focus', () => {
+    const { signals, stop } = startMonitor();
+    window.dispatchEvent(new Event('blur'));
+    vi.advanceTimersByTime(100);
+    expect(signals).toEqual(['focus-loss']);
+    stop();
+  });
+
+  it('reports switching tab once, although the window is blurred before the page is hidden', () => {
+    const { signals, stop } = startMonitor();
+    window.dispatchEvent(new Event('blur'));
+    setVisibility('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+    vi.advanceTimersByTime(100);
+    expect(signals).toEqual(['tab-switch']);
+    stop();
+  });
+
+  it('reports an extended desktop once, however often the monitor restarts', () => {
+    setExtendedDisplay(true);
+    const displays: DisplayState = { isExtended: false };
+    const first = startMonitor(displays);
+    first.stop();
+    const second = startMonitor(displays);
+    expect([...first.signals, ...second.signals]).toEqual(['multiple-displays']);
+
+    // Unplugging the display and plugging it back in is a new incident.
+    setExtendedDisplay(false);
+    setExtendedDisplay(true);
+    expect(second.signals).toEqual(['multiple-displays']);
+    second.stop();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+import { caseLibrary, isValidCase } from '../services/caseLibrary';
+
+const validate = (data: unknown) => {
+  const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  const isValid = isValidCase(data, 'case.json');
+  const messages = error.mock.calls.map(call => call[0]);
+  error.mockRestore();
+  return { isValid, messages };
+};
+
+describe('case validation', () => {
+  const bundledCase = caseLibrary[0];
+
+  it('accepts the bundled cases', () => {
+    expect(validate(bundledCase)).toEqual({ isValid: true, messages: [] });
+  });
+
+  it.each(['Alloy', 'zephyr', ''])('skips a case whose patient voice is %j', voice => {
+    expect(validate({ ...bundledCase, voice })).toEqual({
+      isValid: false,
+      messages: ['Skipping clinical case case.json: missing or invalid voice'],
+    });
+  });
+});
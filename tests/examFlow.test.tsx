@@ -0,0 +1,399 @@
+import { describe, expect, it } from 'vitest';
+import { fireEvent, screen } from '@testing-library/react';
+import { ProctoringResult } from '../types';
+import { caseLibrary } from '../services/caseLibrary';
+import { getRubricForCase } from '../services/rubricLibrary';
+import { SUMMATIVE_POLICY } from '../services/proctoringPolicy';
+import { ExamHarness, advance, click, completeLobby, getStatus, perform, renderApp, startStation } from './harness/examDriver';
+import { SCRIPTED_FEEDBACK, SPEECH_MS } from './harness/scriptedProvider';
+import { blockAudioWorklet, countPlayingAudio, exitFullscreen, setWindowSize, speakIntoMicrophone } from './harness/fakeBrowser';
+
+const SILENCE_WARNING_MS = 15000;
+const SILENCE_TIMEOUT_MS = 20000;
+const CHECK_INTERVAL_MS = SUMMATIVE_POLICY.examCheckIntervalMs;
+
+const transcriptTexts = async (harness: ExamHarness) => {
+  const [session] = await harness.listSessions();
+  return session.transcripts.map(t => `${t.role}: ${t.text}`);
+};
+
+// Lets the patient's last reply finish and the station fall silent long enough to close, then waits for the spoken feedback to finish.
+const timeOutStation = async () => {
+  await advance(SPEECH_MS + SILENCE_TIMEOUT_MS);
+  await advance(2000);
+};
+
+const MIC_SAMPLE_RATE = 48000;
+const MIC_CHUNK_MS = 100;
+
+// A steady tone standing in for the candidate's voice, at the given RMS level.
+const voice = (rms: number) => Float32Array.from({ length: (MIC_SAMPLE_RATE * MIC_CHUNK_MS) / 1000 }, (_, i) => rms * Math.SQRT2 * Math.sin(i / 5));
+const silence = () => new Float32Array((MIC_SAMPLE_RATE * MIC_CHUNK_MS) / 1000);
+// Speech pauses between words; a steady tone held this long would be learned as background noise.
+const talking = (rms: number) => {
+  let chunk = 0;
+  return () => (chunk++ % 5 === 0 ? silence() : voice(rms));
+};
+
+const speakFor = async (ms: number, chunk: () => Float32Array) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += MIC_CHUNK_MS) {
+    speakIntoMicrophone(chunk());
+    await advance(MIC_CHUNK_MS);
+  }
+};
+
+const DEVTOOLS_POLL_MS = 2000;
+
+const phoneDetected: ProctoringResult = { status: 'violation', violationType: 'phone', confidence: 0.95, reason: 'Phone visible on the desk.' };
+const analysisFailed: ProctoringResult = { status: 'error', violationType: null, confidence: null, reason: 'AI analysis failed.' };
+
+describe('exam flow', () => {
+  it('runs a station from the lobby through feedback, Q&A and the end screen', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    expect(screen.getByRole('button', { name: 'Ready to Begin' })).toBeTruthy();
+
+    await startStation();
+    expect(getStatus()).toBe('Connected. You may begin speaking.');
+    await perform(() => harness.latest('patient').exchange('What brings you in today?', 'Chest tightness when walking uphill.'));
+    await advance(SPEECH_MS);
+    await perform(() => harness.latest('patient').exchange('When did it start?', 'About a month ago.'));
+
+    // The inactivity countdown starts once the patient has finished replying.
+    await advance(SPEECH_MS + SILENCE_WARNING_MS);
+    expect(screen.getByText(/Session will end in 5 seconds/)).toBeTruthy();
+    await advance(SILENCE_TIMEOUT_MS - SILENCE_WARNING_MS);
+    // Feedback is spoken a sentence at a time while it streams.
+    await advance(2000);
+    expect(harness.spokenTexts).toEqual(expect.arrayContaining(["Alright, let's review your performance.", ' You asked clear questions.']));
+    expect(screen.getByRole('button', { name: 'End Exam' })).toBeTruthy();
+    expect(harness.latest('examiner-qa').isClosed).toBe(false);
+
+    // The scorecard is marked against the case rubric: every category at the pass mark.
+    expect(screen.getByText('Overall Score')).toBeTruthy();
+    expect(screen.getByText(/Pass \(pass mark/)).toBeTruthy();
+
+    await perform(() => harness.latest('examiner-qa').exchange('How could I improve?', 'Summarise more often.'));
+    await click('End Exam');
+    expect(screen.getByText('Exam Complete')).toBeTruthy();
+
+    const [session] = await harness.listSessions();
+    expect(session.phaseHistory.map(p => p.phase)).toEqual(['initializing', 'ready', 'in-progress', 'feedback', 'q&a', 'ended']);
+    expect(session.status).toBe('completed');
+    expect(await transcriptTexts(harness)).toEqual([
+      'Student: What brings you in today?',
+      'SP: Chest tightness when walking uphill.',
+      'Student: When did it start?',
+      'SP: About a month ago.',
+      `Examiner: ${SCRIPTED_FEEDBACK}`,
+      'Student: How could I improve?',
+      'Examiner: Summarise more often.',
+    ]);
+  });
+
+  it('shows the candidate a read-only scorecard and leaves sign-off to the examiner marking view', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    await perform(() => harness.latest('patient').exchange('What brings you in today?', 'Chest tightness when walking uphill.'));
+    await timeOutStation();
+    expect(screen.queryByRole('button', { name: 'Sign Off Score' })).toBeNull();
+    await click('End Exam');
+    expect(screen.getByText('Performance Scorecard')).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Edit Scores' })).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Sign Off Score' })).toBeNull();
+
+    await harness.reload('?view=marking');
+    await click(/Candidate C-1024/);
+    fireEvent.change(screen.getByLabelText('Examiner ID'), { target: { value: 'EX-42' } });
+    await click('Sign Off Score');
+    expect(screen.getByText('Verified by EX-42')).toBeTruthy();
+    const [session] = await harness.listSessions();
+    expect(session.scoreAudit?.signOff?.examinerId).toBe('EX-42');
+  });
+
+  it('marks turns that were still being spoken when the station closed as cut off', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    await perform(() => harness.latest('patient').exchange('What brings you in today?', 'Chest tightness when walking uphill.'));
+    await perform(() => harness.latest('patient').speakWithoutFinishing('And does the pain'));
+    await timeOutStation();
+
+    const [session] = await harness.listSessions();
+    expect(session.transcripts.slice(0, 3).map(t => [t.role, t.text, t.isFinal])).toEqual([
+      ['Student', 'What brings you in today?', true],
+      ['SP', 'Chest tightness when walking uphill.', true],
+      ['Student', 'And does the pain', false],
+    ]);
+  });
+});
+
+describe('reconnects', () => {
+  it('reopens a dropped patient session with the conversation so far', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    await perform(() => harness.latest('patient').exchange('What brings you in today?', 'Chest tightness when walking uphill.'));
+
+    const dropped = harness.latest('patient');
+    await perform(() => dropped.drop());
+    // The first retry is immediate; give the new session a moment to open.
+    await advance(100);
+    const reopened = harness.latest('patient');
+    expect(reopened).not.toBe(dropped);
+    expect(reopened.transcript.map(t => t.text)).toEqual(['What brings you in today?', 'Chest tightness when walking uphill.']);
+    expect(getStatus()).toBe('Live session open.');
+
+    await perform(() => reopened.exchange('When did it start?', 'About a month ago.'));
+    expect(await transcriptTexts(harness)).toEqual([
+      'Student: What brings you in today?',
+      'SP: Chest tightness when walking uphill.',
+      'Student: When did it start?',
+      'SP: About a month ago.',
+    ]);
+  });
+});
+
+describe('malformed scores', () => {
+  const rubric = getRubricForCase(caseLibrary[0]);
+  const malformedPayloads: [string, unknown, RegExp][] = [
+    ['missing categories', { categories: {} }, /Missing category/],
+    [
+      'scores outside the rubric scale',
+      { categories: Object.fromEntries(rubric.categories.map(c => [c.id, { score: rubric.scale.max + 4, justification: 'Too high.', evidence: [] }])) },
+      /score must be a whole number/,
+    ],
+    [
+      'evidence pointing past the transcript',
+      { categories: Object.fromEntries(rubric.categories.map(c => [c.id, { score: rubric.scale.min, justification: 'Cites turn 40.', evidence: [40] }])) },
+      /evidence must only reference transcript turns/,
+    ],
+  ];
+
+  it.each(malformedPayloads)('reports %s and scores again on retry', async (_label, payload, expectedError) => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    await perform(() => harness.latest('patient').exchange('What brings you in today?', 'Chest tightness when walking uphill.'));
+    harness.queueScorePayloads(payload);
+    await timeOutStation();
+
+    expect(screen.getByText(expectedError)).toBeTruthy();
+    expect(screen.queryByText('Overall Score')).toBeNull();
+    const [unscored] = await harness.listSessions();
+    expect(unscored.scoreAudit).toBeNull();
+
+    await click('Retry Scoring');
+    expect(screen.getByText('Overall Score')).toBeTruthy();
+    const [scored] = await harness.listSessions();
+    expect(Object.keys(scored.scoreAudit!.originalAiScore.categories)).toEqual(rubric.categories.map(c => c.id));
+  });
+});
+
+describe('proctoring failures', () => {
+  it('counts each confirmed violation as a warning and terminates at the critical limit', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    harness.queueFrameResults(phoneDetected, phoneDetected, phoneDetected);
+
+    await advance(CHECK_INTERVAL_MS);
+    expect(screen.getByText('Proctoring Alert: Phone or Prohibited Object. Warning 1 of 5.')).toBeTruthy();
+    expect(screen.getByText('Total Warnings: 1 / 5')).toBeTruthy();
+    // Keep the conversation going so the station does not time out between checks.
+    await perform(() => harness.latest('patient').exchange('What brings you in today?', 'Chest tightness when walking uphill.'));
+    await advance(CHECK_INTERVAL_MS);
+    expect(screen.getByText('Proctoring Alert: Phone or Prohibited Object. Warning 2 of 5.')).toBeTruthy();
+    await perform(() => harness.latest('patient').exchange('When did it start?', 'About a month ago.'));
+    await advance(CHECK_INTERVAL_MS);
+
+    expect(screen.getByText('Exam terminated after 3 critical violations.')).toBeTruthy();
+    expect(screen.getAllByText('Exam Terminated').length).toBeGreaterThan(0);
+    const [session] = await harness.listSessions();
+    expect(session.incidents.map(i => [i.category, i.severity])).toEqual([['phone', 'critical'], ['phone', 'critical'], ['phone', 'critical']]);
+    expect(session.phaseHistory.map(p => p.phase)).toEqual(['initializing', 'ready', 'in-progress', 'ended']);
+  });
+
+  it('warns on leaving fullscreen and locks the exam on the second exit', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+
+    await perform(exitFullscreen);
+    expect(screen.getByText('Fullscreen exited. Warning 1 of 5.')).toBeTruthy();
+    await advance(3000);
+    await perform(() => document.documentElement.requestFullscreen());
+    await perform(exitFullscreen);
+    expect(screen.getByText('Exam locked after 2 "Fullscreen Exited" violations.')).toBeTruthy();
+    const [session] = await harness.listSessions();
+    expect(session.incidents.map(i => i.category)).toEqual(['fullscreen-exit', 'fullscreen-exit']);
+  });
+
+  it('only watches the browser while the station is in progress', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await perform(() => window.dispatchEvent(new Event('blur')));
+    await startStation();
+
+    await perform(() => window.dispatchEvent(new Event('blur')));
+    await advance(100);
+    expect(screen.getByText('Window Focus Lost. Warning 1 of 5.')).toBeTruthy();
+    await advance(3000);
+    await timeOutStation();
+
+    await perform(() => window.dispatchEvent(new Event('blur')));
+    let copyAllowed = true;
+    await perform(() => { copyAllowed = fireEvent.copy(document); });
+    expect(copyAllowed).toBe(true);
+    const [session] = await harness.listSessions();
+    expect(session.incidents.map(i => i.category)).toEqual(['focus-loss']);
+  });
+
+  it('does not mistake browser zoom for developer tools', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+
+    setWindowSize({ innerWidth: 1024 / 1.5, innerHeight: 768 / 1.5, devicePixelRatio: 1.5 });
+    await advance(DEVTOOLS_POLL_MS);
+    expect(screen.queryByText(/Developer Tools Open/)).toBeNull();
+
+    setWindowSize({ innerWidth: 1024 - 400, innerHeight: 768, devicePixelRatio: 1 });
+    await advance(DEVTOOLS_POLL_MS);
+    expect(screen.getByText('Developer Tools Open. Warning 1 of 5.')).toBeTruthy();
+    const [session] = await harness.listSessions();
+    expect(session.incidents.map(i => [i.category, i.severity])).toEqual([['devtools', 'minor']]);
+  });
+
+  it('holds the exam while frame analysis keeps failing until an invigilator authorises it', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    harness.queueFrameResults(...Array(10).fill(analysisFailed));
+
+    await advance(CHECK_INTERVAL_MS * SUMMATIVE_POLICY.outage.consecutiveFailuresForDegraded);
+    expect(screen.getByText('Exam On Hold')).toBeTruthy();
+    expect(getStatus()).toBe('Proctoring unavailable. Exam on hold.');
+    // The inactivity timeout is suspended while the exam is held.
+    await advance(SILENCE_TIMEOUT_MS);
+    expect(screen.getByText('Exam On Hold')).toBeTruthy();
+    expect(harness.sessions.some(s => s.kind === 'examiner-qa')).toBe(false);
+
+    fireEvent.change(screen.getByPlaceholderText('Invigilator ID'), { target: { value: 'INV-7' } });
+    await click('Continue');
+    expect(screen.queryByText('Exam On Hold')).toBeNull();
+    expect(getStatus()).toBe('Proctoring restored. You may continue.');
+    expect(screen.getByText(/Proctoring degraded/)).toBeTruthy();
+
+    const [session] = await harness.listSessions();
+    expect(session.proctoringHealth!.unproctoredIntervals[0].acknowledgedBy).toBe('INV-7');
+    expect(session.incidents).toEqual([]);
+  });
+});
+
+describe('microphone failures', () => {
+  it('keeps the station on its Ready screen when the microphone cannot be captured', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    blockAudioWorklet(true);
+
+    await click('Ready to Begin');
+    expect(getStatus()).toBe('Microphone could not be started. The station has not begun; please ask the invigilator for help.');
+    await advance(SILENCE_TIMEOUT_MS);
+    expect(screen.getByRole('button', { name: 'Ready to Begin' })).toBeTruthy();
+    let [session] = await harness.listSessions();
+    expect(session.phase).toBe('ready');
+
+    blockAudioWorklet(false);
+    await startStation();
+    expect(getStatus()).toBe('Connected. You may begin speaking.');
+    [session] = await harness.listSessions();
+    expect(session.phase).toBe('in-progress');
+  });
+});
+
+describe('voice activity', () => {
+  it('keeps the station open while the candidate talks and restarts the countdown once they stop', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+
+    await speakFor(SILENCE_TIMEOUT_MS + 5000, talking(0.1));
+    expect(screen.queryByText(/Session will end in 5 seconds/)).toBeNull();
+    expect(harness.sessions.some(s => s.kind === 'examiner-qa')).toBe(false);
+    expect(Number(screen.getByRole('meter', { name: 'Microphone level' }).getAttribute('aria-valuenow'))).toBeGreaterThan(50);
+
+    await speakFor(1000, silence);
+    await advance(SILENCE_WARNING_MS);
+    expect(screen.getByText(/Session will end in 5 seconds/)).toBeTruthy();
+  });
+
+  it('asks the candidate to repeat themselves when they were too quiet to make out', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+
+    await speakFor(1000, () => voice(0.1));
+    await speakFor(1000, silence);
+    expect(screen.queryByText('Could not hear you clearly. Please repeat.')).toBeNull();
+
+    await speakFor(1000, () => voice(0.007));
+    await speakFor(1000, silence);
+    expect(screen.getByText('Could not hear you clearly. Please repeat.')).toBeTruthy();
+    expect(harness.latest('patient').isClosed).toBe(false);
+  });
+});
+
+describe('interruptions', () => {
+  it('stops the patient mid-reply and records the turn as interrupted', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+
+    await perform(() => harness.latest('patient').speakWithoutFinishing('Where is the pain?', 'It is in the middle of my chest and it'));
+    expect(countPlayingAudio()).toBe(1);
+    await perform(() => harness.latest('patient').interrupt());
+    expect(countPlayingAudio()).toBe(0);
+    await perform(() => harness.latest('patient').exchange('Does it spread anywhere?', 'Down my left arm.'));
+    await timeOutStation();
+
+    const [session] = await harness.listSessions();
+    expect(session.transcripts.slice(0, 4).map(t => [t.role, t.text, Boolean(t.interrupted)])).toEqual([
+      ['Student', 'Where is the pain?', false],
+      ['SP', 'It is in the middle of my chest and it', true],
+      ['Student', 'Does it spread anywhere?', false],
+      ['SP', 'Down my left arm.', false],
+    ]);
+    expect(screen.getByText('Interrupted the patient 1 time')).toBeTruthy();
+  });
+
+  it('drops patient audio that was still being decoded when the student cut in', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+    await advance(2000);
+    expect(countPlayingAudio()).toBe(0);
+
+    // Both happen before the reply's audio has finished decoding.
+    await perform(() => {
+      harness.latest('patient').speakWithoutFinishing('Where is the pain?', 'It is in the middle of my chest and it');
+      harness.latest('patient').interrupt();
+    });
+    expect(countPlayingAudio()).toBe(0);
+    await advance(SPEECH_MS);
+    expect(countPlayingAudio()).toBe(0);
+  });
+
+  it('restarts the inactivity countdown as soon as the patient is cut off', async () => {
+    const harness = await renderApp();
+    await completeLobby(harness);
+    await startStation();
+
+    await perform(() => harness.latest('patient').speakWithoutFinishing('Where is the pain?', 'It is in the middle of my chest.'));
+    await perform(() => harness.latest('patient').interrupt());
+    await advance(SILENCE_WARNING_MS);
+    expect(screen.getByText(/Session will end in 5 seconds/)).toBeTruthy();
+  });
+});
+
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExamPhase } from '../types';
+import { ExamEvent, createExamStateMachine, getNextPhase } from '../services/examStateMachine';
+
+const phases: ExamPhase[] = ['initializing', 'ready', 'in-progress', 'feedback', 'q&a', 'ended'];
+
+const events: ExamEvent[] = [
+  { type: 'ready' },
+  { type: 'resume', phase: 'feedback' },
+  { type: 'start' },
+  { type: 'silence-timeout' },
+  { type: 'connection-lost' },
+  { type: 'feedback-done' },
+  { type: 'student-ended' },
+  { type: 'qa-ended' },
+  { type: 'blocked' },
+];
+
+describe('exam phase transitions', () => {
+  it('runs a station from initializing to ended', () => {
+    const path: [ExamPhase, ExamEvent, ExamPhase][] = [
+      ['initializing', { type: 'ready' }, 'ready'],
+      ['ready', { type: 'start' }, 'in-progress'],
+      ['in-progress', { type: 'silence-timeout' }, 'feedback'],
+      ['feedback', { type: 'feedback-done' }, 'q&a'],
+      ['q&a', { type: 'student-ended' }, 'ended'],
+    ];
+    for (const [phase, event, next] of path) expect(getNextPhase(phase, event)).toBe(next);
+  });
+
+  it.each(['ready', 'feedback', 'q&a'] as const)('resumes a stored session in %s', phase => {
+    expect(getNextPhase('initializing', { type: 'resume', phase })).toBe(phase);
+  });
+
+  it('only resumes while the exam is initializing', () => {
+    expect(phases.filter(phase => getNextPhase(phase, { type: 'resume', phase: 'q&a' }) !== null)).toEqual(['initializing']);
+  });
+
+  it('keeps the station in progress while a lost patient connection is reopened', () => {
+    expect(getNextPhase('in-progress', { type: 'connection-lost' })).toBe('in-progress');
+  });
+
+  it('rejects a start once the station is over', () => {
+    expect(getNextPhase('q&a', { type: 'start' })).toBeNull();
+    expect(getNextPhase('feedback', { type: 'start' })).toBeNull();
+  });
+
+  it('rejects every event once the exam has ended', () => {
+    expect(events.map(event => getNextPhase('ended', event))).toEqual(events.map(() => null));
+  });
+
+  it('ends the exam from any phase when proctoring blocks it', () => {
+    expect(phases.filter(phase => phase !== 'ended').map(phase => getNextPhase(phase, { type: 'blocked' }))).toEqual(Array(5).fill('ended'));
+  });
+});
+
+describe('exam state machine', () => {
+  it('applies allowed events and ignores the rest', () => {
+    const machine = createExamStateMachine();
+    expect(machine.send({ type: 'start' })).toBe(false);
+    expect(machine.getPhase()).toBe('initializing');
+    expect(machine.send({ type: 'ready' })).toBe(true);
+    expect(machine.getPhase()).toBe('ready');
+  });
+
+  it('resumes in the stored phase', () => {
+    const machine = createExamStateMachine();
+    expect(machine.send({ type: 'resume', phase: 'q&a' })).toBe(true);
+    expect(machine.getPhase()).toBe('q&a');
+    expect(machine.send({ type: 'start' })).toBe(false);
+    expect(machine.getPhase()).toBe('q&a');
+  });
+
+  it('notifies listeners of each phase change until they unsubscribe', () => {
+    const machine = createExamStateMachine('ready');
+    const listener = vi.fn();
+    const unsubscribe = machine.subscribe(listener);
+
+    machine.send({ type: 'start' });
+    // Allowed, but the phase stays the same, so there is nothing to report.
+    machine.send({ type: 'connection-lost' });
+    machine.send({ type: 'feedback-done' });
+    expect(listener.mock.calls).toEqual([['in-progress']]);
+
+    unsubscribe();
+    machine.send({ type: 'silence-timeout' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(machine.getPhase()).toBe('feedback');
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { IDBFactory } from 'fake-indexeddb';
+import { vi } from 'vitest';
+import { StoredSession } from '../../types';
+import { ScriptedProvider, createScriptedProvider } from './scriptedProvider';
+
+// React only applies state updates when an act() call finishes, so time moves in short steps, each its own act().
+// Effects that start timers in response to a render then see roughly the time they would in a browser.
+const STEP_MS = 10;
+
+// Runs every timer due in the next `ms` of fake time, letting promises and React updates settle in between.
+export const advance = async (ms: number = 0) => {
+  let remaining = ms;
+  do {
+    const step = Math.min(STEP_MS, remaining);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(step);
+    });
+    remaining -= step;
+  } while (remaining > 0);
+};
+
+// Wraps anything that drives the app from outside React, such as a scripted model reply.
+export const perform = async (action: () => void) => {
+  await act(async () => action());
+  await advance(0);
+};
+
+export const click = async (name: string | RegExp) => {
+  fireEvent.click(screen.getByRole('button', { name }));
+  await advance(0);
+};
+
+export const getStatus = () => screen.getByText('Status:').textContent?.replace('Status:', '').trim();
+
+export interface ExamHarness extends ScriptedProvider {
+  // Reads sessions from the same store module the app under test is using.
+  listSessions: () => Promise<StoredSession[]>;
+  // Renders the app again at another URL against the same database, as opening a new link on the device would.
+  reload: (search: string) => Promise<void>;
+}
+
+// Renders a fresh App against an empty database, with the scripted provider in place of the real AI backend.
+export const renderApp = async (search: string = '?policy=summative'): Promise<ExamHarness> => {
+  globalThis.indexedDB = new IDBFactory();
+  // App state such as the open database connection lives at module level, so every test gets new module instances.
+  vi.resetModules();
+  const scripted = createScriptedProvider();
+  vi.doMock('../../services/aiProvider', async importOriginal => ({
+    ...(await importOriginal<typeof import('../../services/aiProvider')>()),
+    getActiveAIProvider: () => ({ provider: scripted.provider, error: null }),
+  }));
+  const { default: App } = await import('../../App');
+  const { listSessions } = await import('../../services/sessionStore');
+
+  const mount = async (search: string) => {
+    window.history.replaceState(null, '', `/${search}`);
+    await act(async () => {
+      render(<App />);
+    });
+    await advance(0);
+  };
+  const reload = async (search: string) => {
+    cleanup();
+    await mount(search);
+  };
+
+  await mount(search);
+  return { ...scripted, listSessions, reload };
+};
+
+// Camera check, identity enrolment and microphone check, ending with the station on its Ready screen.
+export const completeLobby = async (harness: ExamHarness, policyLobbyMs: number = 6000) => {
+  await click('Start Setup');
+  await advance(policyLobbyMs);
+  fireEvent.change(screen.getByLabelText('Candidate Number'), { target: { value: 'C-1024' } });
+  await click('Capture ID Card');
+  await click('Capture Reference Photo');
+  await click('Start Mic Check');
+  await perform(() => harness.latest('transcriber').exchange('Testing, one, two, three.'));
+  await click(/Confirm Mic is Working/);
+  // The patient and examiner greetings are synthesised and played before Ready appears.
+  await advance(1000);
+};
+
+// Presses Ready and lets the patient's opening line play.
+export const startStation = async () => {
+  await click('Ready to Begin');
+  await advance(500);
+};
@@ -0,0 +1,225 @@
+// Stand-ins for the browser APIs jsdom does not provide: camera and microphone, Web Audio, object URLs, canvas and fullscreen.
+// Audio playback is simulated with timers, so tests drive it with vi.advanceTimersByTimeAsync.
+
+class FakeMediaStreamTrack {
+  readyState: 'live' | 'ended' = 'live';
+  enabled = true;
+  constructor(readonly kind: 'audio' | 'video') {}
+  stop() {
+    this.readyState = 'ended';
+  }
+}
+
+class FakeMediaStream {
+  private tracks: FakeMediaStreamTrack[];
+  constructor(tracks: FakeMediaStreamTrack[] = []) {
+    this.tracks = [...tracks];
+  }
+  getTracks() {
+    return [...this.tracks];
+  }
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+}
+
+class FakeAudioNode {
+  connect<T>(destination: T): T {
+    return destination;
+  }
+  disconnect() {}
+}
+
+const workletNodes = new Set<FakeAudioWorkletNode>();
+
+// The capture worklet only produces audio when a test speaks into the microphone; scripted sessions ignore it.
+class FakeAudioWorkletNode extends FakeAudioNode {
+  port = { onmessage: null as ((event: MessageEvent) => void) | null, postMessage: () => {} };
+  constructor() {
+    super();
+    workletNodes.add(this);
+  }
+  disconnect() {
+    workletNodes.delete(this);
+  }
+}
+
+// Delivers one chunk of microphone input, at the fake AudioContext's 48kHz, to every running capture.
+export const speakIntoMicrophone = (samples: Float32Array) => {
+  workletNodes.forEach(node => node.port.onmessage?.({ data: samples.slice() } as MessageEvent));
+};
+
+class FakeGainNode extends FakeAudioNode {
+  gain = { value: 1, setValueAtTime(value: number) { this.value = value; } };
+}
+
+class FakeMediaStreamAudioDestinationNode extends FakeAudioNode {
+  stream = new FakeMediaStream();
+}
+
+class FakeAudioBuffer {
+  private channels: Float32Array[];
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+const playingSources = new Set<FakeAudioBufferSourceNode>();
+
+// How many buffer sources have been started and have not yet ended or been stopped.
+export const countPlayingAudio = () => playingSources.size;
+
+class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  private listeners: (() => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private context: FakeAudioContext) {
+    super();
+  }
+  addEventListener(type: string, listener: () => void) {
+    if (type === 'ended') this.listeners.push(listener);
+  }
+  // Playback "finishes" once the buffer's duration has passed on the (fake) clock.
+  start(when: number = 0) {
+    const delaySeconds = Math.max(0, when - this.context.currentTime) + (this.buffer?.duration ?? 0);
+    this.timer = setTimeout(() => this.end(), delaySeconds * 1000);
+    playingSources.add(this);
+  }
+  stop() {
+    if (this.timer === null) return;
+    clearTimeout(this.timer);
+    this.end();
+  }
+  private end() {
+    this.timer = null;
+    playingSources.delete(this);
+    this.onended?.();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+let isAudioWorkletBlocked = false;
+
+// Makes loading the capture worklet fail, as a content security policy that forbids blob: scripts would.
+export const blockAudioWorklet = (blocked: boolean) => {
+  isAudioWorkletBlocked = blocked;
+};
+
+class FakeAudioContext {
+  readonly sampleRate: number;
+  state: 'running' | 'closed' = 'running';
+  readonly destination = new FakeAudioNode();
+  readonly audioWorklet = {
+    addModule: () => isAudioWorkletBlocked ? Promise.reject(new DOMException('Refused to load the script.', 'AbortError')) : Promise.resolve(),
+  };
+  private createdAt = Date.now();
+
+  constructor(options?: { sampleRate?: number }) {
+    this.sampleRate = options?.sampleRate ?? 48000;
+  }
+  get currentTime() {
+    return (Date.now() - this.createdAt) / 1000;
+  }
+  createMediaStreamSource() {
+    return new FakeAudioNode();
+  }
+  createGain() {
+    return new FakeGainNode();
+  }
+  createMediaStreamDestination() {
+    return new FakeMediaStreamAudioDestinationNode();
+  }
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+  createBufferSource() {
+    return new FakeAudioBufferSourceNode(this);
+  }
+  close() {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+}
+
+let fullscreenElement: Element | null = null;
+
+// Leaves fullscreen the way a candidate pressing Escape would.
+export const exitFullscreen = () => {
+  fullscreenElement = null;
+  document.dispatchEvent(new Event('fullscreenchange'));
+};
+
+const DEFAULT_WINDOW_SIZE = { innerWidth: 1024, innerHeight: 768, outerWidth: 1024, outerHeight: 768, devicePixelRatio: 1 };
+
+// Resizes the window as zooming or docking developer tools would; sizes are CSS pixels inside, screen pixels outside.
+export const setWindowSize = (size: Partial<typeof DEFAULT_WINDOW_SIZE>) => {
+  Object.entries(size).forEach(([key, value]) => Object.defineProperty(window, key, { configurable: true, writable: true, value }));
+};
+
+let displayEvents = new EventTarget();
+
+// Plugs in or removes a second display through the Window Management API, which jsdom does not have.
+export const setExtendedDisplay = (isExtended: boolean) => {
+  Object.defineProperties(window.screen, {
+    isExtended: { configurable: true, get: () => isExtended },
+    addEventListener: { configurable: true, value: displayEvents.addEventListener.bind(displayEvents) },
+    removeEventListener: { configurable: true, value: displayEvents.removeEventListener.bind(displayEvents) },
+  });
+  displayEvents.dispatchEvent(new Event('change'));
+};
+
+const FAKE_JPEG_DATA_URL = 'data:image/jpeg;base64,ZmFrZS1mcmFtZQ==';
+
+export const installFakeBrowser = () => {
+  Object.assign(globalThis, { MediaStream: FakeMediaStream, AudioContext: FakeAudioContext, AudioWorkletNode: FakeAudioWorkletNode });
+  URL.createObjectURL = () => 'blob:fake';
+  URL.revokeObjectURL = () => {};
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia: async (constraints: MediaStreamConstraints) => new FakeMediaStream([
+        ...(constraints.video ? [new FakeMediaStreamTrack('video')] : []),
+        ...(constraints.audio ? [new FakeMediaStreamTrack('audio')] : []),
+      ]),
+    },
+  });
+
+  // A camera that is always streaming 640x480 frames.
+  Object.defineProperty(HTMLMediaElement.prototype, 'readyState', { configurable: true, get: () => 4 });
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoWidth', { configurable: true, get: () => 640 });
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoHeight', { configurable: true, get: () => 480 });
+  Object.defineProperty(HTMLMediaElement.prototype, 'srcObject', { configurable: true, writable: true, value: null });
+  HTMLMediaElement.prototype.play = () => Promise.resolve();
+  HTMLMediaElement.prototype.pause = () => {};
+  HTMLCanvasElement.prototype.getContext = (() => ({ drawImage: () => {} })) as unknown as HTMLCanvasElement['getContext'];
+  HTMLCanvasElement.prototype.toDataURL = () => FAKE_JPEG_DATA_URL;
+
+  Element.prototype.scrollIntoView = () => {};
+  setWindowSize(DEFAULT_WINDOW_SIZE);
+  Object.defineProperty(document, 'fullscreenElement', { configurable: true, get: () => fullscreenElement });
+  document.documentElement.requestFullscreen = async () => {
+    fullscreenElement = document.documentElement;
+    document.dispatchEvent(new Event('fullscreenchange'));
+  };
+};
+
+export const resetFakeBrowser = () => {
+  fullscreenElement = null;
+  setWindowSize(DEFAULT_WINDOW_SIZE);
+  isAudioWorkletBlocked = false;
+  workletNodes.clear();
+  playingSources.clear();
+  ['isExtended', 'addEventListener', 'removeEventListener'].forEach(key => delete (window.screen as unknown as Record<string, unknown>)[key]);
+  displayEvents = new EventTarget();
+};
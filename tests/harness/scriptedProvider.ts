@@ -0,0 +1,141 @@
+import { ProctoringResult, Rubric, ScoringResult, TranscriptEntry } from '../../types';
+import { ExamAIProvider, LiveSession, LiveSessionCallbacks } from '../../services/aiProvider';
+import { encode } from '../../services/audioUtils';
+import { validateScorePayload } from '../../services/scoring';
+
+// Every synthesised utterance plays for this long on the fake clock.
+export const SPEECH_MS = 100;
+// SPEECH_MS of 16-bit silence at 24kHz.
+const SPEECH_PCM = encode(new Uint8Array((SPEECH_MS / 1000) * 24000 * 2));
+
+export type ScriptedSessionKind = 'patient' | 'examiner-qa' | 'transcriber';
+
+export interface ScriptedLiveSession {
+  kind: ScriptedSessionKind;
+  // The transcript the session was opened with; non-empty when the app reconnects mid-station.
+  transcript: TranscriptEntry[];
+  isClosed: boolean;
+  // A full exchange: the candidate's words, then the model's reply with audio, then the end of the turn.
+  exchange: (input: string, output?: string) => void;
+  // Streams transcription without ending the turn, as when the station closes mid-sentence.
+  speakWithoutFinishing: (input: string, output?: string) => void;
+  // The candidate talked over the model's reply, so the server abandons it.
+  interrupt: () => void;
+  // The server ends the connection without the app asking it to.
+  drop: () => void;
+}
+
+export interface ScriptedProvider {
+  provider: ExamAIProvider;
+  sessions: ScriptedLiveSession[];
+  // The most recently opened session of a kind.
+  latest: (kind: ScriptedSessionKind) => ScriptedLiveSession;
+  // Results for the next frame checks in order; once used up, frames come back clear.
+  queueFrameResults: (...results: ProctoringResult[]) => void;
+  // Raw model payloads for the next scoring calls, validated exactly as a Gemini response would be.
+  queueScorePayloads: (...payloads: unknown[]) => void;
+  spokenTexts: string[];
+}
+
+// A passing payload: every category at the pass mark, citing the first student turn.
+export const buildValidScorePayload = (rubric: Rubric, transcript: TranscriptEntry[]) => {
+  const firstStudentTurn = Math.max(0, transcript.findIndex(t => t.role === 'Student'));
+  return {
+    categories: Object.fromEntries(rubric.categories.map(category => [
+      category.id,
+      { score: Math.ceil(rubric.passThreshold), justification: `Scripted justification for ${category.name}.`, evidence: [firstStudentTurn] },
+    ])),
+  };
+};
+
+export const SCRIPTED_FEEDBACK = "Alright, let's review your performance. You asked clear questions. Keep summarising as you go.";
+
+export const createScriptedProvider = (): ScriptedProvider => {
+  const sessions: ScriptedLiveSession[] = [];
+  const frameResults: ProctoringResult[] = [];
+  const scorePayloads: unknown[] = [];
+  const spokenTexts: string[] = [];
+
+  const connect = (kind: ScriptedSessionKind, transcript: TranscriptEntry[], callbacks: LiveSessionCallbacks): Promise<LiveSession> => {
+    const stream = (input: string, output?: string) => {
+      if (session.isClosed) return;
+      callbacks.onInputTranscription?.(input);
+      if (output) {
+        callbacks.onOutputTranscription?.(output);
+        callbacks.onAudio?.(SPEECH_PCM);
+      }
+    };
+    const session: ScriptedLiveSession = {
+      kind,
+      transcript: [...transcript],
+      isClosed: false,
+      exchange: (input, output) => {
+        stream(input, output);
+        if (!session.isClosed) callbacks.onTurnComplete?.();
+      },
+      speakWithoutFinishing: stream,
+      interrupt: () => {
+        if (!session.isClosed) callbacks.onInterrupted?.();
+      },
+      drop: () => {
+        session.isClosed = true;
+        callbacks.onClose();
+      },
+    };
+    sessions.push(session);
+    setTimeout(callbacks.onOpen, 0);
+    return Promise.resolve({
+      sendAudio: () => {},
+      close: () => {
+        if (session.isClosed) return;
+        session.isClosed = true;
+        setTimeout(callbacks.onClose, 0);
+      },
+    });
+  };
+
+  const scoreTranscript: ExamAIProvider['scoreTranscript'] = async (transcript, clinicalCase, rubric): Promise<ScoringResult> => {
+    const payload = scorePayloads.length > 0 ? scorePayloads.shift() : buildValidScorePayload(rubric, transcript);
+    const validation = validateScorePayload(rubric, payload, transcript.length);
+    if (!validation.scoreData) {
+      return { scoreData: null, error: `The scoring response was invalid: ${validation.errors.join(' ')}`, checklistError: null, attempts: 1 };
+    }
+    validation.scoreData.checklist = clinicalCase.checklist.map(item => ({ itemId: item.id, label: item.label, covered: false, turnIndex: null, evidence: [] }));
+    return { scoreData: validation.scoreData, error: null, checklistError: null, attempts: 1 };
+  };
+
+  const provider: ExamAIProvider = {
+    id: 'mock',
+    analyzeFrame: async () => frameResults.shift() ?? { status: 'clear', violationType: null, confidence: 1, reason: 'All clear' },
+    compareFaces: async () => ({ status: 'match', confidence: 1, reason: 'Same person.' }),
+    analyzeAudio: async () => ({ status: 'clear', violationType: null, confidence: 1, reason: 'All clear' }),
+    textToSpeech: async text => {
+      spokenTexts.push(text);
+      return SPEECH_PCM;
+    },
+    scoreTranscript,
+    streamExaminerFeedback: async (transcript, clinicalCase, rubric, onChunk) => {
+      const scoring = await scoreTranscript(transcript, clinicalCase, rubric);
+      const [opening, ...rest] = SCRIPTED_FEEDBACK.split('. ');
+      onChunk(`${opening}. `);
+      onChunk(rest.join('. '));
+      return { feedbackText: SCRIPTED_FEEDBACK, scoring };
+    },
+    connectPatient: (_clinicalCase, transcript, callbacks) => connect('patient', transcript, callbacks),
+    connectExaminerQA: (transcript, _feedback, callbacks) => connect('examiner-qa', transcript, callbacks),
+    connectTranscriber: callbacks => connect('transcriber', [], callbacks),
+  };
+
+  return {
+    provider,
+    sessions,
+    latest: kind => {
+      const session = [...sessions].reverse().find(s => s.kind === kind);
+      if (!session) throw new Error(`No ${kind} session has been opened.`);
+      return session;
+    },
+    queueFrameResults: (...results) => frameResults.push(...results),
+    queueScorePayloads: (...payloads) => scorePayloads.push(...payloads),
+    spokenTexts,
+  };
+};
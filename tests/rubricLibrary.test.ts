@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { caseLibrary } from '../services/caseLibrary';
+import { getRubric, getRubricForCase, isValidRubric, rubricLibrary } from '../services/rubricLibrary';
+
+describe('rubric library', () => {
+  it('finds a rubric by id', () => {
+    expect(getRubric('history-taking').id).toBe('history-taking');
+  });
+
+  it('throws on an unknown id instead of falling back to another rubric', () => {
+    expect(() => getRubric('histroy-taking')).toThrow('Rubric "histroy-taking" not found.');
+  });
+
+  it('only loads cases whose rubric exists', () => {
+    expect(caseLibrary.length).toBeGreaterThan(0);
+    caseLibrary.forEach(clinicalCase => expect(rubricLibrary).toContain(getRubricForCase(clinicalCase)));
+  });
+});
+
+describe('rubric validation', () => {
+  const rubric = getRubric('history-taking');
+  const level = { score: rubric.scale.max, label: 'Excellent', descriptor: 'Covers everything.' };
+  const validate = (data: unknown) => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const isValid = isValidRubric(data, 'rubric.json');
+    const messages = error.mock.calls.map(call => call[0]);
+    error.mockRestore();
+    return { isValid, messages };
+  };
+  const skippedFor = (problems: string) => ({ isValid: false, messages: [`Skipping rubric rubric.json: missing or invalid ${problems}`] });
+
+  it('accepts the bundled rubrics', () => {
+    rubricLibrary.forEach(bundled => expect(validate(bundled)).toEqual({ isValid: true, messages: [] }));
+  });
+
+  it.each([
+    ['a score above the scale', { ...level, score: rubric.scale.max + 1 }],
+    ['a score below the scale', { ...level, score: rubric.scale.min - 1 }],
+    ['a fractional score', { ...level, score: rubric.scale.min + 0.5 }],
+    ['no label', { ...level, label: undefined }],
+    ['a descriptor that is not text', { ...level, descriptor: 4 }],
+  ])('skips a rubric with a level that has %s', (_, invalidLevel) => {
+    expect(validate({ ...rubric, levels: [...rubric.levels, invalidLevel] })).toEqual(skippedFor('levels'));
+  });
+
+  it('checks the levels a category overrides the rubric with', () => {
+    const categories = rubric.categories.map((category, i) => i === 0 ? { ...category, levels: [{ ...level, score: rubric.scale.max + 1 }] } : category);
+    expect(validate({ ...rubric, categories })).toEqual(skippedFor('categories'));
+  });
+
+  it.each([rubric.scale.min - 1, rubric.scale.max + 1])('skips a rubric whose pass mark %d is off the scale', passThreshold => {
+    expect(validate({ ...rubric, passThreshold })).toEqual(skippedFor('passThreshold'));
+  });
+
+  it('reports only the scale when the scale itself is invalid', () => {
+    expect(validate({ ...rubric, scale: { min: rubric.scale.max, max: rubric.scale.min } })).toEqual(skippedFor('scale'));
+  });
+});
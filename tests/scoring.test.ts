@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getRubric } from '../services/rubricLibrary';
+import { validateScorePayload } from '../services/scoring';
+
+const rubric = getRubric('history-taking');
+const TRANSCRIPT_LENGTH = 6;
+
+const payloadWith = (override: Record<string, unknown> = {}) => ({
+  categories: Object.fromEntries(rubric.categories.map(category => [
+    category.id,
+    { score: rubric.passThreshold, justification: 'Asked about the onset.', evidence: [2, 0, 2], ...override },
+  ])),
+});
+
+describe('score payload validation', () => {
+  it('builds the scorecard from a valid payload, with each evidence turn listed once in order', () => {
+    const { scoreData, errors } = validateScorePayload(rubric, payloadWith(), TRANSCRIPT_LENGTH);
+    expect(errors).toEqual([]);
+    expect(scoreData?.rubricId).toBe(rubric.id);
+    expect(Object.values(scoreData!.categories).map(category => category.evidence)).toEqual(rubric.categories.map(() => [0, 2]));
+  });
+
+  it.each([null, 'scores', [], { categories: [] }])('rejects %j', payload => {
+    expect(validateScorePayload(rubric, payload, TRANSCRIPT_LENGTH)).toEqual({
+      scoreData: null,
+      errors: ['Response must be an object with a "categories" object.'],
+    });
+  });
+
+  it('reports every invalid field', () => {
+    const { scoreData, errors } = validateScorePayload(rubric, payloadWith({ score: '3', justification: ' ', evidence: [TRANSCRIPT_LENGTH] }), TRANSCRIPT_LENGTH);
+    expect(scoreData).toBeNull();
+    expect(errors).toHaveLength(rubric.categories.length * 3);
+    expect(errors[0]).toBe(`Category "${rubric.categories[0].id}" score must be a whole number from ${rubric.scale.min} to ${rubric.scale.max}, got "3".`);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CandidateIdentity, ScoreData, SessionBundle } from '../types';
+import { caseLibrary } from '../services/caseLibrary';
+import { getRubricForCase } from '../services/rubricLibrary';
+import { createStoredSession } from '../services/sessionStore';
+import { createIncident } from '../services/incidentLog';
+import { SUMMATIVE_POLICY } from '../services/proctoringPolicy';
+import { buildCandidateReportHtml, buildSessionBundle, buildSessionCsv, downloadFile, parseSessionBundle } from '../services/sessionExport';
+
+const clinicalCase = caseLibrary[0];
+
+const makeSession = (candidateId: string, policyId: string = 'summative') => {
+  const identity: CandidateIdentity = {
+    candidateId,
+    idCardPhoto: 'data:image/jpeg;base64,aWQtY2FyZA==',
+    referenceFace: 'data:image/jpeg;base64,ZmFjZQ==',
+    capturedAt: '2026-03-02T09:00:00.000Z',
+    verification: { status: 'match', confidence: 0.97, reason: 'Same person.' },
+  };
+  const session = createStoredSession(clinicalCase.id, policyId, 'gemini', identity);
+  session.incidents = [createIncident(SUMMATIVE_POLICY, 'phone', 'Phone visible on the desk.', {
+    snapshot: 'data:image/jpeg;base64,c25hcHNob3Q=',
+    audioClip: 'data:audio/wav;base64,Y2xpcA==',
+  })];
+  return session;
+};
+
+const makeBundle = (candidateId: string, policyId?: string): SessionBundle =>
+  buildSessionBundle(makeSession(candidateId, policyId), clinicalCase, getRubricForCase(clinicalCase));
+
+const csvColumn = (csv: string, column: string): string[] => {
+  const [header, ...rows] = csv.split('\r\n');
+  const index = header.split(',').indexOf(column);
+  return rows.map(row => row.split(',')[index]);
+};
+
+describe('session CSV', () => {
+  it.each(['=HYPERLINK("http://example.com")', '+1', '-1', '@SUM(A1)'])('stops the candidate ID %s from running as a formula', candidateId => {
+    const cell = csvColumn(buildSessionCsv([makeBundle(candidateId)]), 'candidate_id')[0];
+    expect(cell.replace(/^"|"$/g, '').replace(/""/g, '"')).toBe(`'${candidateId}`);
+  });
+
+  it('leaves ordinary candidate IDs as they are', () => {
+    expect(csvColumn(buildSessionCsv([makeBundle('C-1024')]), 'candidate_id')).toEqual(['C-1024']);
+  });
+
+  it('records the proctoring policy so formative and summative attempts can be told apart', () => {
+    expect(csvColumn(buildSessionCsv([makeBundle('C-1', 'formative'), makeBundle('C-2')]), 'policy_id')).toEqual(['formative', 'summative']);
+  });
+});
+
+describe('candidate report', () => {
+  it('names the proctoring policy', () => {
+    expect(buildCandidateReportHtml(makeBundle('C-1024', 'formative'))).toContain('Proctoring policy: Formative Practice');
+  });
+
+  it('says the checklist is unavailable instead of listing no items when only the rubric was scored', () => {
+    const bundle = makeBundle('C-1024');
+    const scoreData: ScoreData = { rubricId: bundle.rubric.id, categories: {}, overallScore: 3, passed: true };
+    bundle.session.scoreAudit = { originalAiScore: scoreData, edits: [], signOff: null };
+    const html = buildCandidateReportHtml(bundle);
+    expect(html).toContain('The history checklist could not be evaluated for this session.');
+    expect(html).not.toContain('covered)</h2>');
+  });
+});
+
+describe('session bundle', () => {
+  it('leaves out the identity photos and incident evidence by default', () => {
+    const bundle = makeBundle('C-1024');
+    expect(bundle.evidenceIncludedBy).toBeNull();
+    expect(bundle.session.candidateIdentity).toMatchObject({ candidateId: 'C-1024', idCardPhoto: '', referenceFace: '' });
+    expect(bundle.session.incidents).toEqual([expect.objectContaining({ category: 'phone', snapshot: null, audioClip: null })]);
+    expect(JSON.stringify(bundle)).not.toContain('data:');
+  });
+
+  it('keeps them when an invigilator asks for them', () => {
+    const session = makeSession('C-1024');
+    const bundle = buildSessionBundle(session, clinicalCase, getRubricForCase(clinicalCase), 'INV-7');
+    expect(bundle.evidenceIncludedBy).toBe('INV-7');
+    expect(bundle.session).toEqual(session);
+  });
+});
+
+describe('reading a session bundle', () => {
+  const scoreData: ScoreData = {
+    rubricId: getRubricForCase(clinicalCase).id,
+    categories: { history: { score: 3, justification: 'Thorough.', evidence: [0] } },
+    overallScore: 3,
+    passed: true,
+  };
+  const withScoreAudit = (): SessionBundle => {
+    const bundle = makeBundle('C-1024');
+    bundle.session.scoreAudit = { originalAiScore: scoreData, edits: [], signOff: null };
+    return bundle;
+  };
+  // A plain JSON copy, so a test can damage it the way a hand-edited file would be.
+  const damageable = () => JSON.parse(JSON.stringify(withScoreAudit()));
+  const parse = (data: unknown) => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bundle = parseSessionBundle(JSON.stringify(data), 'bundle.json');
+    error.mockRestore();
+    return bundle;
+  };
+
+  it('reads back an exported bundle', () => {
+    const bundle = withScoreAudit();
+    expect(parse(bundle)).toEqual(bundle);
+  });
+
+  it('skips a bundle without the candidate identity', () => {
+    const bundle = damageable();
+    delete bundle.session.candidateIdentity;
+    expect(parse(bundle)).toBeNull();
+  });
+
+  it('skips a bundle whose score audit is malformed', () => {
+    const bundle = damageable();
+    bundle.session.scoreAudit = { originalAiScore: { categories: 'history: 3' }, edits: null };
+    expect(parse(bundle)).toBeNull();
+  });
+
+  it('skips a bundle whose rubric categories have no ids', () => {
+    const bundle = damageable();
+    bundle.rubric.categories = [{ name: 'History' }];
+    expect(parse(bundle)).toBeNull();
+  });
+
+  it('skips files that are not bundles', () => {
+    expect(parse({ format: 'something-else' })).toBeNull();
+  });
+});
+
+describe('file download', () => {
+  it('keeps the download URL alive after the click, so the browser can still fetch it', () => {
+    URL.createObjectURL = () => 'blob:export';
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    downloadFile('report.csv', 'a,b', 'text/csv');
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10_000);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    click.mockRestore();
+  });
+});
@@ -0,0 +1,18 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installFakeBrowser, resetFakeBrowser } from './harness/fakeBrowser';
+
+installFakeBrowser();
+
+beforeEach(() => {
+  // Microtasks and setImmediate stay real so IndexedDB and promise chains settle without advancing the clock.
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  resetFakeBrowser();
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivity, createVoiceActivityDetector } from '../services/voiceActivity';
+
+const SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+
+const tone = (rms: number) => Float32Array.from({ length: (SAMPLE_RATE * CHUNK_MS) / 1000 }, (_, i) => rms * Math.SQRT2 * Math.sin(i / 5));
+
+// Feeds `ms` of audio in 100ms chunks and returns what the detector said about each one.
+const feed = (detector: ReturnType<typeof createVoiceActivityDetector>, ms: number, chunk: (index: number) => Float32Array): VoiceActivity[] =>
+  Array.from({ length: ms / CHUNK_MS }, (_, i) => detector.process(chunk(i)));
+
+// Half a second of syllables, then a short pause between words.
+const talking = (rms: number) => (index: number) => tone(index % 5 === 4 ? 0 : rms);
+
+describe('voice activity detection', () => {
+  it('detects speech over silence and ends the utterance after a pause', () => {
+    const detector = createVoiceActivityDetector(SAMPLE_RATE);
+    feed(detector, 1000, () => tone(0));
+
+    const speech = feed(detector, 2000, talking(0.1));
+    expect(speech.every((activity, i) => activity.isSpeaking === i >= 1)).toBe(true);
+    const pause = feed(detector, 1000, () => tone(0));
+    const ended = pause.find(activity => activity.endedUtterance)?.endedUtterance;
+    expect(ended).toMatchObject({ isUnclear: false });
+    expect(ended!.durationMs).toBeCloseTo(1600);
+  });
+
+  it('ignores a burst shorter than a syllable', () => {
+    const detector = createVoiceActivityDetector(SAMPLE_RATE);
+    feed(detector, 1000, () => tone(0));
+    expect(feed(detector, 100, () => tone(0.1)).some(activity => activity.isSpeaking)).toBe(false);
+  });
+
+  it('learns a steady background noise instead of treating it as speech forever', () => {
+    const detector = createVoiceActivityDetector(SAMPLE_RATE);
+    const noise = feed(detector, 10000, () => tone(0.02));
+
+    expect(noise[0].isSpeaking).toBe(false);
+    expect(noise.some(activity => activity.isSpeaking)).toBe(true);
+    expect(noise.slice(-20).some(activity => activity.isSpeaking)).toBe(false);
+    expect(noise.filter(activity => activity.endedUtterance)).toHaveLength(1);
+
+    // Speech still stands out against the noise it has learned.
+    const speech = feed(detector, 2000, index => (index % 5 === 4 ? tone(0.02) : tone(0.1)));
+    expect(speech[speech.length - 1].isSpeaking).toBe(true);
+  });
+
+  it('passes every result to its subscribers until they unsubscribe', () => {
+    const detector = createVoiceActivityDetector(SAMPLE_RATE);
+    const heard: VoiceActivity[] = [];
+    const unsubscribe = detector.subscribe(activity => heard.push(activity));
+
+    const results = feed(detector, 500, () => tone(0.1));
+    unsubscribe();
+    feed(detector, 500, () => tone(0.1));
+    expect(heard).toEqual(results);
+  });
+});
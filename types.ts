@@ -1,21 +1,311 @@
+// Violations the proctoring model can detect from a single webcam frame.
+export type FrameViolationType = 'absent' | 'multiple-people' | 'phone' | 'off-camera-speech';
+
+// 'unknown' means no analysis has completed yet; 'error' means the analysis itself failed.
+export type ProctoringStatus = 'unknown' | 'clear' | 'violation' | 'error';
+
+export interface AudioProctoringResult {
+  status: ProctoringStatus;
+  violationType: AudioViolationType | null;
+  confidence: number | null;
+  reason: string;
+}
+
 export interface ProctoringResult {
-  isCheating: boolean;
+  status: ProctoringStatus;
+  violationType: FrameViolationType | null;
+  // Model confidence from 0 to 1 in its verdict; null when no analysis took place.
+  confidence: number | null;
+  // Free-text explanation for logs and review; never branch on it.
   reason: string;
 }
 
+// Violations raised by the browser itself rather than by analysing the webcam.
+export type BrowserViolationType = 'fullscreen-exit' | 'tab-switch' | 'focus-loss' | 'clipboard' | 'context-menu' | 'devtools' | 'multiple-displays';
+
+// Violations detected by analysing the candidate's microphone audio.
+export type AudioViolationType = 'second-voice' | 'whispering' | 'prompting';
+
+// Raised when the person on camera no longer matches the face enrolled in the Lobby.
+export type IdentityViolationType = 'identity-mismatch';
+
+export type ViolationCategory = FrameViolationType | BrowserViolationType | AudioViolationType | IdentityViolationType;
+
+export interface IdentityMatchResult {
+    // 'error' means the comparison itself failed and says nothing about the candidate.
+    status: 'match' | 'mismatch' | 'error';
+    confidence: number | null;
+    reason: string;
+}
+
+// Enrolment captured in the Lobby before the exam; images are JPEG data URLs, or empty in a session bundle exported without evidence.
+export interface CandidateIdentity {
+    // Candidate or student number as registered for the exam.
+    candidateId: string;
+    idCardPhoto: string;
+    referenceFace: string;
+    capturedAt: string;
+    // The Lobby check that the reference face matches the ID card photo.
+    verification: IdentityMatchResult;
+}
+
+// 'ignore' violations are still logged for review but never count as warnings.
+export type ViolationSeverity = 'ignore' | 'minor' | 'major' | 'critical';
+
+// What happens to the exam while proctoring analysis is unavailable.
+export type ProctoringOutageFallback = 'pause' | 'continue-flagged' | 'require-invigilator';
+
+export interface ProctoringPolicy {
+    id: string;
+    name: string;
+    severities: Record<ViolationCategory, ViolationSeverity>;
+    examCheckIntervalMs: number;
+    lobbyCheckIntervalMs: number;
+    // Consecutive "All clear" frames needed to pass the Lobby integrity check.
+    lobbyClearChecksRequired: number;
+    // Consecutive frames showing the same violation before it counts as a warning.
+    confirmationsRequired: number;
+    // Frame violations reported with lower model confidence are not acted on.
+    minConfidence: number;
+    audioCheckIntervalMs: number;
+    // How often the live frame is compared against the enrolled reference face.
+    identityCheckIntervalMs: number;
+    outage: {
+        // Consecutive failed checks before proctoring is treated as degraded.
+        consecutiveFailuresForDegraded: number;
+        fallback: ProctoringOutageFallback;
+    };
+    // Any limit that is reached terminates the exam; null disables that limit.
+    termination: {
+        maxWarnings: number | null;
+        maxPerSeverity: Partial<Record<ViolationSeverity, number>>;
+        maxPerCategory: Partial<Record<ViolationCategory, number>>;
+    };
+}
+
+export interface UnproctoredInterval {
+    // ISO 8601 timestamps; end is null while the outage is ongoing.
+    start: string;
+    end: string | null;
+    failedChecks: number;
+    // Invigilator who allowed the exam to continue, when the policy requires one.
+    acknowledgedBy: string | null;
+}
+
+export interface ProctoringHealth {
+    totalChecks: number;
+    failedChecks: number;
+    consecutiveFailures: number;
+    // When the current run of failed checks began; null while checks are succeeding.
+    failureStreakStartedAt: string | null;
+    isDegraded: boolean;
+    unproctoredIntervals: UnproctoredInterval[];
+}
+
+export type IncidentReviewStatus = 'pending' | 'confirmed' | 'dismissed';
+
+export interface ViolationEvidence {
+    snapshot?: string | null;
+    audioClip?: string | null;
+    confidence?: number | null;
+}
+
+export interface ProctoringIncident {
+    id: string;
+    // ISO 8601 timestamp of when the violation was detected.
+    timestamp: string;
+    category: ViolationCategory;
+    severity: ViolationSeverity;
+    // Model confidence for frame-based detections; null for browser events.
+    confidence: number | null;
+    reason: string;
+    // JPEG data URL thumbnail of the analysed frame, when one was captured.
+    snapshot: string | null;
+    // WAV data URL of the flagged microphone audio, when one was captured.
+    audioClip: string | null;
+    review: IncidentReviewStatus;
+    reviewedBy: string | null;
+    reviewedAt: string | null;
+}
+
 export interface TranscriptEntry {
     role: 'Student' | 'SP' | 'Examiner';
     text: string;
+    // Milliseconds from the start of the station (when the student pressed Ready).
+    startMs: number;
+    endMs: number;
+    // False while the text is still streaming, or when the turn was cut off before the model completed it.
+    isFinal: boolean;
+    // Set on a patient turn the student talked over; its text is what the patient had said up to that point.
+    interrupted?: boolean;
+}
+
+export interface SessionRecording {
+    blob: Blob;
+    // Object URL for the blob; only valid in the page that made the recording.
+    url: string;
+    mimeType: string;
+    startedAt: string;
+    durationMs: number;
+    // Station time at which recording began; transcript timestamps minus this give positions in the video.
+    stationOffsetMs: number;
 }
 
 export interface ScoreCategory {
     score: number;
     justification: string;
+    // Indices into the transcript of the turns that support the justification.
+    evidence: number[];
+}
+
+export interface ChecklistItem {
+    id: string;
+    label: string;
+}
+
+export interface ChecklistItemResult {
+    itemId: string;
+    label: string;
+    covered: boolean;
+    // Index into the transcript of the student turn that covered the item, or null if not covered.
+    turnIndex: number | null;
+    // The covering turn plus the patient's reply to it, as indices into the transcript.
+    evidence: number[];
 }
 
 export interface ScoreData {
-    rapport: ScoreCategory;
-    historyTaking: ScoreCategory;
-    communication: ScoreCategory;
+    rubricId: string;
+    // Keyed by RubricCategory.id of the rubric the scorecard was marked against.
+    categories: Record<string, ScoreCategory>;
     overallScore: number;
+    passed: boolean;
+    checklist?: ChecklistItemResult[];
+}
+
+export interface ScoreEdit {
+    examinerId: string;
+    // ISO 8601 timestamp of when the edit was saved.
+    timestamp: string;
+    reason: string;
+    before: ScoreData;
+    after: ScoreData;
+}
+
+export interface ScoreSignOff {
+    examinerId: string;
+    timestamp: string;
+}
+
+export interface ScoreAuditTrail {
+    // The scorecard exactly as the AI produced it; never modified.
+    originalAiScore: ScoreData;
+    edits: ScoreEdit[];
+    // Once set, the scorecard is locked against further edits.
+    signOff: ScoreSignOff | null;
+}
+
+export interface ScoringResult {
+    scoreData: ScoreData | null;
+    // Human-readable reason scoring failed; null when scoreData is present.
+    error: string | null;
+    // Why checklist coverage is missing from an otherwise complete scorecard; null when the checklist was evaluated.
+    checklistError: string | null;
+    attempts: number;
+}
+
+export interface RubricLevel {
+    score: number;
+    label: string;
+    descriptor: string;
+}
+
+export interface RubricCategory {
+    id: string;
+    name: string;
+    description: string;
+    weight: number;
+    // Overrides the rubric-wide level descriptors for this category.
+    levels?: RubricLevel[];
+}
+
+export interface Rubric {
+    id: string;
+    name: string;
+    scale: { min: number; max: number };
+    levels: RubricLevel[];
+    categories: RubricCategory[];
+    // Minimum weighted overall score required to pass the station.
+    passThreshold: number;
+}
+
+export type VoiceName = 'Zephyr' | 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus';
+
+export interface PatientDemographics {
+    name: string;
+    age: number;
+    sex: string;
+    occupation: string;
+}
+
+export interface ClinicalCase {
+    id: string;
+    title: string;
+    rubricId: string;
+    demographics: PatientDemographics;
+    chiefComplaint: string;
+    historyOfPresentIllness: string[];
+    pastMedicalHistory: string[];
+    medications: string[];
+    socialHistory: string[];
+    behaviourRules: string[];
+    checklist: ChecklistItem[];
+    voice: VoiceName;
+    openingLine: string;
+}
+
+export type ExamPhase = 'initializing' | 'ready' | 'in-progress' | 'feedback' | 'q&a' | 'ended';
+
+export interface ExamPhaseTransition {
+    phase: ExamPhase;
+    at: string;
+}
+
+export type AIProviderId = 'gemini' | 'mock';
+
+// 'active' sessions that are not 'ended' were interrupted by a refresh or crash and can be resumed.
+export type StoredSessionStatus = 'active' | 'completed' | 'abandoned';
+
+// Everything needed to restore an exam after a reload, kept in IndexedDB and updated as the exam runs.
+export interface StoredSession {
+    id: string;
+    caseId: string;
+    policyId: string;
+    // Mock sessions were never assessed by a model; exports flag them and analytics leave them out.
+    aiProviderId: AIProviderId;
+    candidateIdentity: CandidateIdentity;
+    // ISO 8601 timestamps.
+    startedAt: string;
+    updatedAt: string;
+    status: StoredSessionStatus;
+    phase: ExamPhase;
+    phaseHistory: ExamPhaseTransition[];
+    // Station time already elapsed, so transcript timings carry on from where they stopped.
+    stationElapsedMs: number;
+    transcripts: TranscriptEntry[];
+    examinerFeedback: string;
+    scoreAudit: ScoreAuditTrail | null;
+    incidents: ProctoringIncident[];
+    proctoringHealth: ProctoringHealth | null;
+}
+
+// Self-contained export of one exam session, readable without the app's case and rubric libraries.
+export interface SessionBundle {
+    format: 'osce-session-bundle';
+    version: 1;
+    exportedAt: string;
+    // Invigilator who chose to include the identity photos and incident snapshots and audio; null when they were removed.
+    evidenceIncludedBy: string | null;
+    session: StoredSession;
+    clinicalCase: ClinicalCase;
+    rubric: Rubric;
 }